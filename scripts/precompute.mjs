@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+// Queues a taste-index pre-computation job on a running server and follows it
+// until it finishes. The server does the crawling, so this needs nothing but Node.
+//
+//   npm run precompute -- --lat 36.16 --lng -86.78 --radius 3000
+//   npm run precompute -- --bounds 36.14,-86.80,36.18,-86.76 --force
+//
+// --bounds is south,west,north,east. --url defaults to http://localhost:3000,
+// and PRECOMPUTE_TOKEN is sent as a bearer token when set.
+
+const POLL_INTERVAL_MS = 2000;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const name = arg.slice(2);
+    if (name === 'force') {
+      args.force = true;
+    } else {
+      args[name] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+function usage(message) {
+  console.error(message);
+  console.error('Usage: npm run precompute -- (--lat <lat> --lng <lng> --radius <meters> | --bounds <south,west,north,east>) [--force] [--url <server>]');
+  process.exit(1);
+}
+
+function requestBody(args) {
+  const body = args.force ? { force: true } : {};
+  if (args.bounds) {
+    const [south, west, north, east] = args.bounds.split(',').map(Number);
+    return { ...body, bounds: { north, south, east, west } };
+  }
+  if (args.lat === undefined || args.lng === undefined || args.radius === undefined) {
+    usage('Give a center and radius, or bounds.');
+  }
+  return { ...body, center: { lat: Number(args.lat), lng: Number(args.lng) }, radius: Number(args.radius) };
+}
+
+async function call(url, init = {}) {
+  const token = process.env.PRECOMPUTE_TOKEN;
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+  return data;
+}
+
+function describe({ status, counts }) {
+  return `${status}: ${counts.found} found, ${counts.indexed} indexed, ${counts.unchanged} unchanged, ${counts.failed} failed`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const baseUrl = (args.url || 'http://localhost:3000').replace(/\/$/, '');
+
+  let { job } = await call(`${baseUrl}/api/precompute`, { method: 'POST', body: JSON.stringify(requestBody(args)) });
+  console.log(`Job ${job.id} queued`);
+
+  let last = '';
+  while (job.status === 'queued' || job.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    ({ job } = await call(`${baseUrl}/api/precompute/${job.id}`));
+    const line = describe(job);
+    if (line !== last) console.log(line);
+    last = line;
+  }
+
+  if (job.status === 'failed') {
+    console.error(`Job failed: ${job.error || 'unknown error'}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
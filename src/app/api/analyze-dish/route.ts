@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { CohereClient } from 'cohere-ai';
-
-const cohere = new CohereClient({
-  token: process.env.COHERE_API_KEY,
-});
+import { analyzeDish } from '@/lib/analysis/dish-analysis';
+import { assessDishDietary } from '@/lib/analysis/dietary-assessment';
+import { isDietaryRestriction } from '@/lib/dietary';
+import { getPlaceDetails } from '@/lib/nearby/details';
+import { getPlacesProvider, isPlaceId, PlaceReview } from '@/lib/places';
 
 export async function POST(request: NextRequest) {
   try {
-    const { dishName, restaurantName, restaurantAddress } = await request.json();
+    const { dishName, restaurantName, restaurantAddress, placeId, dietary = [] } = await request.json();
 
     if (!dishName || !restaurantName) {
       return NextResponse.json(
@@ -15,29 +15,40 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (!Array.isArray(dietary) || !dietary.every(isDietaryRestriction)) {
+      return NextResponse.json(
+        { error: 'Dietary needs must be a list of known restrictions' },
+        { status: 400 }
+      );
+    }
 
-    const prompt = `Provide a detailed flavor profile analysis for the dish "${dishName}" from the restaurant "${restaurantName}" located at "${restaurantAddress}". 
-    
-    Describe its likely:
-    - Key ingredients and components
-    - Primary flavors (e.g., sweet, spicy, savory, umami, sour, bitter)
-    - Texture profile (e.g., crispy, tender, creamy)
-    - Cooking method (e.g., fried, grilled, stewed)
-    - A note on its authenticity or style (e.g., traditional, modern fusion)
-    - A possible drink pairing suggestion
-    
-    Keep the analysis concise, engaging, and informative, as if you are a food critic.`;
-
-    const response = await cohere.generate({
-      model: 'command',
-      prompt: prompt,
-      maxTokens: 400,
-      temperature: 0.4,
+    const { analysis, dishProfile, dietaryVerdict } = await analyzeDish({
+      dishName,
+      restaurantName,
+      restaurantAddress,
+      dietary,
     });
 
-    const analysis = response.generations[0].text.trim();
+    if (dietary.length === 0) {
+      return NextResponse.json({ analysis, dishProfile });
+    }
 
-    return NextResponse.json({ analysis });
+    // Reviews are only evidence here, so a Places failure should not fail the analysis
+    let reviews: PlaceReview[] = [];
+    if (isPlaceId(placeId)) {
+      try {
+        reviews = (await getPlaceDetails(placeId, getPlacesProvider())).reviews || [];
+      } catch (error) {
+        console.warn('Could not load reviews for dietary evidence:', error);
+      }
+    }
+
+    const analysisText = [analysis.summary, ...analysis.ingredients].join(' ');
+    return NextResponse.json({
+      analysis,
+      dishProfile,
+      dietary: assessDishDietary(dietaryVerdict, analysisText, dishName, dietary, reviews),
+    });
 
   } catch (error) {
     console.error('Error in analyze-dish API:', error);
@@ -46,4 +57,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
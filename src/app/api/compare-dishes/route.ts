@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareDishes, DishReference } from '@/lib/analysis/dish-comparison';
+
+const MAX_CANDIDATES = 4;
+
+function isDishReference(value: unknown): value is DishReference {
+  if (typeof value !== 'object' || value === null) return false;
+  const dish = value as Record<string, unknown>;
+  return (
+    typeof dish.dishName === 'string' &&
+    dish.dishName.trim().length > 0 &&
+    typeof dish.restaurantName === 'string' &&
+    dish.restaurantName.trim().length > 0 &&
+    (dish.restaurantAddress === undefined || typeof dish.restaurantAddress === 'string')
+  );
+}
+
+// Compares the dish the search started from with up to four candidate dishes
+export async function POST(request: NextRequest) {
+  try {
+    const { source, candidates } = await request.json();
+
+    if (!isDishReference(source)) {
+      return NextResponse.json(
+        { error: 'Source dish name and restaurant name are required' },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(candidates) || candidates.length === 0 || candidates.length > MAX_CANDIDATES || !candidates.every(isDishReference)) {
+      return NextResponse.json(
+        { error: `Provide between 1 and ${MAX_CANDIDATES} candidate dishes, each with a dish name and restaurant name` },
+        { status: 400 }
+      );
+    }
+
+    const comparisons = await compareDishes(source, candidates);
+    return NextResponse.json({ comparisons });
+
+  } catch (error) {
+    console.error('Error in compare-dishes API:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare dishes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import { addHistory, cleanLibraryText, clearHistory, listHistory, toLibraryPlace, toSearchLocation } from '@/lib/library/store';
+
+export async function GET(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ history: await listHistory(userId) });
+  } catch (error) {
+    console.error('Error reading search history:', error);
+    return NextResponse.json({ error: 'Failed to read search history' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    const { dish, sourceRestaurant, location, resultCount } = body;
+
+    const dishName = cleanLibraryText(dish);
+    const searchLocation = toSearchLocation(location);
+    if (!dishName || !searchLocation) {
+      return NextResponse.json({ error: 'Dish and location are required' }, { status: 400 });
+    }
+    const place = toLibraryPlace(sourceRestaurant);
+    if (place === undefined) {
+      return NextResponse.json({ error: 'Source restaurant needs a name' }, { status: 400 });
+    }
+    if (resultCount !== undefined && (typeof resultCount !== 'number' || !Number.isInteger(resultCount) || resultCount < 0)) {
+      return NextResponse.json({ error: 'Result count must be a whole number' }, { status: 400 });
+    }
+
+    const entry = await addHistory(userId, {
+      dish: dishName,
+      sourceRestaurant: place,
+      location: searchLocation,
+      resultCount: resultCount ?? 0,
+    });
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error saving search history:', error);
+    return NextResponse.json({ error: 'Failed to save search history' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    await clearHistory(userId);
+    return NextResponse.json({ cleared: true });
+  } catch (error) {
+    console.error('Error clearing search history:', error);
+    return NextResponse.json({ error: 'Failed to clear search history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { identifyDishFromImage } from '@/lib/analysis/dish-identification';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Takes a multipart upload with an `image` field and proposes dish names plus a
+// dish profile. The user picks a name, and the profile can be passed on to /api/nearby.
+export async function POST(request: NextRequest) {
+  let image: FormDataEntryValue | null;
+  try {
+    image = (await request.formData()).get('image');
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart form with an image' }, { status: 400 });
+  }
+
+  if (!(image instanceof File)) {
+    return NextResponse.json({ error: 'An image file is required' }, { status: 400 });
+  }
+  if (!ACCEPTED_TYPES.includes(image.type)) {
+    return NextResponse.json(
+      { error: `Image must be one of: ${ACCEPTED_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (image.size > MAX_IMAGE_BYTES) {
+    return NextResponse.json({ error: 'Image must be 5 MB or smaller' }, { status: 413 });
+  }
+
+  try {
+    const data = Buffer.from(await image.arrayBuffer()).toString('base64');
+    const identification = await identifyDishFromImage({ data, mediaType: image.type });
+    return NextResponse.json(identification);
+  } catch (error) {
+    console.error('Error in identify-dish API:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to identify dish' },
+      { status: 500 }
+    );
+  }
+}
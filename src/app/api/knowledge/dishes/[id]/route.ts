@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { correctDish, DishCorrection, getDish } from '@/lib/knowledge/store';
+
+// `id` is the normalized dish name, e.g. `spicy-chicken-sandwich`
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const dish = await getDish(id);
+    if (!dish) {
+      return NextResponse.json({ error: 'Dish not found' }, { status: 404 });
+    }
+    return NextResponse.json({ dish });
+  } catch (error) {
+    console.error('Error reading dish:', error);
+    return NextResponse.json({ error: 'Failed to read dish' }, { status: 500 });
+  }
+}
+
+// A corrected profile is used by every later search for the dish instead of a fresh analysis
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const { analysis, cuisineType, cookingStyle, flavorProfile } = await request.json();
+    const strings = { analysis, cuisineType, cookingStyle };
+    if (Object.values(strings).some(value => value !== undefined && (typeof value !== 'string' || !value.trim()))) {
+      return NextResponse.json({ error: 'analysis, cuisineType and cookingStyle must be non-empty strings' }, { status: 400 });
+    }
+    if (flavorProfile !== undefined && (!Array.isArray(flavorProfile) || !flavorProfile.every(flavor => typeof flavor === 'string'))) {
+      return NextResponse.json({ error: 'flavorProfile must be a list of strings' }, { status: 400 });
+    }
+
+    const change: DishCorrection = {
+      ...Object.fromEntries(Object.entries(strings).filter(([, value]) => value !== undefined).map(([key, value]) => [key, value.trim()])),
+      ...(flavorProfile !== undefined ? { flavorProfile } : {}),
+    };
+    const dish = await correctDish(id, change);
+    if (!dish) {
+      return NextResponse.json({ error: 'Dish not found' }, { status: 404 });
+    }
+    return NextResponse.json({ dish });
+  } catch (error) {
+    console.error('Error correcting dish:', error);
+    return NextResponse.json({ error: 'Failed to correct dish' }, { status: 500 });
+  }
+}
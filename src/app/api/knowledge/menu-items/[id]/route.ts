@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { correctMenuItem, deleteMenuItem, MenuItemCorrection } from '@/lib/knowledge/store';
+
+// `rejected: true` marks the item as not served, so searches drop it and never add it back
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const { description, rejected } = await request.json();
+    if (description !== undefined && (typeof description !== 'string' || !description.trim())) {
+      return NextResponse.json({ error: 'Description must be a non-empty string' }, { status: 400 });
+    }
+    if (rejected !== undefined && typeof rejected !== 'boolean') {
+      return NextResponse.json({ error: 'Rejected must be true or false' }, { status: 400 });
+    }
+
+    const change: MenuItemCorrection = {
+      ...(description !== undefined ? { description: description.trim() } : {}),
+      ...(rejected !== undefined ? { rejected } : {}),
+    };
+    const menuItem = await correctMenuItem(id, change);
+    if (!menuItem) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+    return NextResponse.json({ menuItem });
+  } catch (error) {
+    console.error('Error correcting menu item:', error);
+    return NextResponse.json({ error: 'Failed to correct menu item' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    if (!(await deleteMenuItem(id))) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting menu item:', error);
+    return NextResponse.json({ error: 'Failed to delete menu item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addMenuItem } from '@/lib/knowledge/store';
+import { getPlacesProvider } from '@/lib/places';
+
+// Adds a menu item by hand; later searches include it in the place's menu insights
+export async function POST(request: NextRequest) {
+  try {
+    const { placeId, dish, description } = await request.json();
+    if (typeof placeId !== 'string' || !placeId.trim() || typeof dish !== 'string' || !dish.trim()) {
+      return NextResponse.json({ error: 'placeId and dish are required' }, { status: 400 });
+    }
+    if (description !== undefined && (typeof description !== 'string' || !description.trim())) {
+      return NextResponse.json({ error: 'Description must be a non-empty string' }, { status: 400 });
+    }
+
+    const { name: placesProvider } = getPlacesProvider();
+    const menuItem = await addMenuItem(placesProvider, placeId.trim(), dish.trim(), description?.trim());
+    if (!menuItem) {
+      return NextResponse.json({ error: 'Nothing is known about this place yet' }, { status: 404 });
+    }
+    return NextResponse.json({ menuItem });
+  } catch (error) {
+    console.error('Error adding menu item:', error);
+    return NextResponse.json({ error: 'Failed to add menu item' }, { status: 500 });
+  }
+}
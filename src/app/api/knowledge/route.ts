@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dishesAtPlace, Nearby, placesServingDish, similarDishes } from '@/lib/knowledge/query';
+import { getPlacesProvider } from '@/lib/places';
+
+const QUERIES = ['dishes-at', 'places-serving', 'similar-dishes'];
+const DEFAULT_RADIUS = 5000;
+const MAX_RADIUS = 50000;
+
+// `lat` and `lng` with an optional `radius`; null when no location was given
+function parseNearby(params: URLSearchParams): Nearby | string | null {
+  if (!params.has('lat') && !params.has('lng')) return null;
+  const lat = Number(params.get('lat'));
+  const lng = Number(params.get('lng'));
+  const radius = params.has('radius') ? Number(params.get('radius')) : DEFAULT_RADIUS;
+  if (!params.get('lat') || !params.get('lng') || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return 'lat and lng must both be numbers';
+  }
+  if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS) {
+    return `radius must be between 1 and ${MAX_RADIUS} meters`;
+  }
+  return { center: { lat, lng }, radius };
+}
+
+// Read-only questions about what earlier searches learned
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = params.get('query') || '';
+  if (!QUERIES.includes(query)) {
+    return NextResponse.json({ error: `query must be one of: ${QUERIES.join(', ')}` }, { status: 400 });
+  }
+
+  const nearby = parseNearby(params);
+  if (typeof nearby === 'string') {
+    return NextResponse.json({ error: nearby }, { status: 400 });
+  }
+  const placeId = params.get('placeId')?.trim();
+  const dish = params.get('dish')?.trim();
+  if (query === 'dishes-at' && !placeId) {
+    return NextResponse.json({ error: 'placeId is required' }, { status: 400 });
+  }
+  if (query !== 'dishes-at' && !dish) {
+    return NextResponse.json({ error: 'dish is required' }, { status: 400 });
+  }
+  if (query === 'similar-dishes' && !nearby) {
+    return NextResponse.json({ error: 'lat and lng are required' }, { status: 400 });
+  }
+
+  try {
+    const { name: placesProvider } = getPlacesProvider();
+
+    if (query === 'dishes-at') {
+      const place = await dishesAtPlace(placesProvider, placeId!);
+      if (!place) {
+        return NextResponse.json({ error: 'Nothing is known about this place yet' }, { status: 404 });
+      }
+      return NextResponse.json(place);
+    }
+    if (query === 'places-serving') {
+      return NextResponse.json({ dish, places: await placesServingDish(placesProvider, dish!, nearby || undefined) });
+    }
+    return NextResponse.json(await similarDishes(placesProvider, dish!, nearby!));
+  } catch (error) {
+    console.error('Error querying the knowledge base:', error);
+    return NextResponse.json({ error: 'Failed to query the knowledge base' }, { status: 500 });
+  }
+}
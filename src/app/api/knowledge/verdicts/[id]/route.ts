@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { correctVerdict, deleteVerdict, VerdictCorrection } from '@/lib/knowledge/store';
+
+// A corrected verdict replaces the model's in every later search for the dish at that place
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const { hasExactDish, hasSimilarDish, reasoning } = await request.json();
+    if ([hasExactDish, hasSimilarDish].some(value => value !== undefined && typeof value !== 'boolean')) {
+      return NextResponse.json({ error: 'hasExactDish and hasSimilarDish must be true or false' }, { status: 400 });
+    }
+    if (reasoning !== undefined && (typeof reasoning !== 'string' || !reasoning.trim())) {
+      return NextResponse.json({ error: 'Reasoning must be a non-empty string' }, { status: 400 });
+    }
+
+    const change: VerdictCorrection = {
+      ...(hasExactDish !== undefined ? { hasExactDish } : {}),
+      ...(hasSimilarDish !== undefined ? { hasSimilarDish } : {}),
+      ...(reasoning !== undefined ? { reasoning: reasoning.trim() } : {}),
+    };
+    const verdict = await correctVerdict(id, change);
+    if (!verdict) {
+      return NextResponse.json({ error: 'Verdict not found' }, { status: 404 });
+    }
+    return NextResponse.json({ verdict });
+  } catch (error) {
+    console.error('Error correcting verdict:', error);
+    return NextResponse.json({ error: 'Failed to correct verdict' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    if (!(await deleteVerdict(id))) {
+      return NextResponse.json({ error: 'Verdict not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting verdict:', error);
+    return NextResponse.json({ error: 'Failed to delete verdict' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runMealSearch, validateMealRequest } from '@/lib/nearby/meal';
+import { describeNearbyError, runNearbySearch, validateNearbyRequest } from '@/lib/nearby/pipeline';
+import { getPlacesProvider, PlacesProvider } from '@/lib/places';
+import { createSSEResponse } from '@/lib/sse';
+
+// Same search as POST /api/nearby, but emits an event as each stage completes:
+// `dish-profile` (`dish-profiles` for meals), `flavor-twins` (flavor-twin mode
+// only), `candidates`, one `restaurant` per detailed place, then `result`.
+// Pages continued from a cursor start at `candidates`, and a page that had to
+// widen the search sends `candidates` and its `restaurant` events twice.
+export async function POST(request: NextRequest) {
+  // A malformed body is the caller's mistake, not a failed search
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+  const { dish, dishes, restaurant, latitude, longitude, radius = 5000, filters, ranking, weights, dishProfile, dietary, mode, maxBranchesPerChain, cursor } = body;
+
+  const isMeal = dishes !== undefined;
+  const validationError = isMeal
+    ? validateMealRequest({ dishes, latitude, longitude, radius, filters, dietary, mode, maxBranchesPerChain })
+    : validateNearbyRequest({ dish, latitude, longitude, radius, filters, ranking, weights, dishProfile, dietary, mode, maxBranchesPerChain, cursor });
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  let places: PlacesProvider;
+  try {
+    places = getPlacesProvider();
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Places provider not configured' },
+      { status: 500 }
+    );
+  }
+
+  return createSSEResponse(async (send) => {
+    if (isMeal) {
+      await runMealSearch(
+        { dishes, latitude, longitude, radius, filters, ranking, dietary, maxBranchesPerChain },
+        places,
+        ({ type, ...payload }) => send(type, payload)
+      );
+      return;
+    }
+    await runNearbySearch(
+      { dish, restaurant, latitude, longitude, radius, filters, ranking, weights, dishProfile, dietary, mode, maxBranchesPerChain, cursor },
+      places,
+      ({ type, ...payload }) => send(type, payload)
+    );
+  }, (error) => {
+    console.error('Error in nearby stream API:', error);
+    return describeNearbyError(error);
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cachedFile } from '@/lib/cache';
+import { getPlacesProvider } from '@/lib/places';
+
+// Resolves a Places `photo_reference` to image bytes on the server, so the
+// Google API key never reaches the browser.
+
+const PHOTO_SIZES: Record<string, number> = {
+  thumb: 200,
+  medium: 400,
+  large: 800,
+};
+
+const PHOTO_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const photoReference = searchParams.get('ref');
+  const size = searchParams.get('size') || 'medium';
+
+  if (!photoReference || !/^[A-Za-z0-9_-]{1,1000}$/.test(photoReference)) {
+    return NextResponse.json({ error: 'A valid photo reference is required' }, { status: 400 });
+  }
+  if (!PHOTO_SIZES[size]) {
+    return NextResponse.json(
+      { error: `Size must be one of: ${Object.keys(PHOTO_SIZES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const places = getPlacesProvider();
+    const maxWidth = PHOTO_SIZES[size];
+    const photo = await cachedFile(
+      { namespace: 'place-photos', key: `${places.name}:${photoReference}:${maxWidth}`, ttlMs: PHOTO_TTL_MS },
+      () => places.getPhoto(photoReference, maxWidth)
+    );
+
+    return new NextResponse(new Uint8Array(photo.data), {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Cache-Control': 'public, max-age=86400, stale-while-revalidate=604800',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching place photo:', error);
+    return NextResponse.json({ error: 'Failed to load photo' }, { status: 502 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrecomputeJob } from '@/lib/taste-index/jobs';
+import { isPrecomputeAuthorized } from '@/lib/taste-index/request';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isPrecomputeAuthorized(request)) {
+    return NextResponse.json({ error: 'A valid PRECOMPUTE_TOKEN bearer token is required' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  try {
+    const job = await getPrecomputeJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error reading pre-computation job:', error);
+    return NextResponse.json({ error: 'Failed to read pre-computation job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlacesProvider, PlacesProvider } from '@/lib/places';
+import { toCrawlArea, validateCrawlArea } from '@/lib/taste-index/area';
+import { listPrecomputeJobs, startPrecomputeJob } from '@/lib/taste-index/jobs';
+import { isPrecomputeAuthorized } from '@/lib/taste-index/request';
+
+const UNAUTHORIZED = { error: 'A valid PRECOMPUTE_TOKEN bearer token is required' };
+
+// Queues a job that crawls the area and indexes every restaurant's menu
+// insights and taste profile; answers right away with the job to poll
+export async function POST(request: NextRequest) {
+  if (!isPrecomputeAuthorized(request)) {
+    return NextResponse.json(UNAUTHORIZED, { status: 401 });
+  }
+
+  try {
+    const { center, radius, bounds, force } = await request.json();
+    const area = bounds !== undefined ? { bounds } : { center, radius };
+    const validationError = validateCrawlArea(area);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    if (force !== undefined && typeof force !== 'boolean') {
+      return NextResponse.json({ error: 'Force must be true or false' }, { status: 400 });
+    }
+
+    let places: PlacesProvider;
+    try {
+      places = getPlacesProvider();
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Places provider not configured' },
+        { status: 500 }
+      );
+    }
+
+    const job = await startPrecomputeJob(toCrawlArea(area), places, force === true);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting pre-computation job:', error);
+    return NextResponse.json({ error: 'Failed to start pre-computation job' }, { status: 500 });
+  }
+}
+
+// The most recent jobs, newest first
+export async function GET(request: NextRequest) {
+  if (!isPrecomputeAuthorized(request)) {
+    return NextResponse.json(UNAUTHORIZED, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ jobs: await listPrecomputeJobs() });
+  } catch (error) {
+    console.error('Error listing pre-computation jobs:', error);
+    return NextResponse.json({ error: 'Failed to list pre-computation jobs' }, { status: 500 });
+  }
+}
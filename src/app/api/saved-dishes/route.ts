@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import {
+  cleanLibraryText,
+  deleteSavedDish,
+  listSavedDishes,
+  saveDish,
+  toLibraryPlace,
+  toSavedDishProfile,
+} from '@/lib/library/store';
+
+export async function GET(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ dishes: await listSavedDishes(userId) });
+  } catch (error) {
+    console.error('Error reading saved dishes:', error);
+    return NextResponse.json({ error: 'Failed to read saved dishes' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    const { name, sourceRestaurant, dishProfile } = body;
+
+    const dishName = cleanLibraryText(name);
+    if (!dishName) {
+      return NextResponse.json({ error: 'Dish name is required' }, { status: 400 });
+    }
+    const place = toLibraryPlace(sourceRestaurant);
+    if (place === undefined) {
+      return NextResponse.json({ error: 'Source restaurant needs a name' }, { status: 400 });
+    }
+    const profile = toSavedDishProfile(dishProfile);
+    if (profile === undefined) {
+      return NextResponse.json({ error: 'Dish profile is malformed' }, { status: 400 });
+    }
+
+    const dish = await saveDish(userId, { name: dishName, sourceRestaurant: place, dishProfile: profile });
+    return NextResponse.json({ dish });
+  } catch (error) {
+    console.error('Error saving dish:', error);
+    return NextResponse.json({ error: 'Failed to save dish' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Saved dish id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteSavedDish(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Saved dish not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting saved dish:', error);
+    return NextResponse.json({ error: 'Failed to delete saved dish' }, { status: 500 });
+  }
+}
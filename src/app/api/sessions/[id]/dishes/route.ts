@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import { cleanLibraryText } from '@/lib/library/store';
+import { addParticipantDish, getSessionView } from '@/lib/sessions/store';
+
+// Adds one of the caller's favorite dishes and scores every session candidate for it
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+  const { id } = await params;
+
+  try {
+    const { dish } = await request.json();
+    const dishName = cleanLibraryText(dish);
+    if (!dishName) {
+      return NextResponse.json({ error: 'Dish is required' }, { status: 400 });
+    }
+
+    const current = await getSessionView(id, userId);
+    if (!current) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (!current.you) {
+      return NextResponse.json({ error: 'Join the session before adding dishes' }, { status: 403 });
+    }
+
+    const session = await addParticipantDish(id, userId, dishName);
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error adding session dish:', error);
+    return NextResponse.json({ error: 'Failed to score your dish' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionView } from '@/lib/sessions/store';
+import { createSSEResponse } from '@/lib/sse';
+
+const POLL_INTERVAL_MS = 2000;
+// Clients reconnect after this, which keeps idle connections from piling up
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Live updates for a session page: a `session` event with the full view
+// whenever anyone joins, adds a dish or votes. The store is a JSON file, so
+// changes are picked up by polling it. EventSource cannot send the x-user-id
+// header, so `you` is always null here; clients keep it from their own calls.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const initial = await getSessionView(id, null);
+  if (!initial) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  return createSSEResponse(async (send) => {
+    let lastUpdate = initial.updatedAt;
+    send('session', { session: initial });
+
+    const startedAt = Date.now();
+    while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      const session = await getSessionView(id, null);
+      if (!session) return;
+      if (session.updatedAt !== lastUpdate) {
+        lastUpdate = session.updatedAt;
+        send('session', { session });
+      }
+    }
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import { cleanParticipantName, joinSession, MAX_PARTICIPANTS } from '@/lib/sessions/store';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+  const { id } = await params;
+
+  try {
+    const { name } = await request.json();
+    const participantName = cleanParticipantName(name);
+    if (!participantName) {
+      return NextResponse.json({ error: 'Your name is required' }, { status: 400 });
+    }
+
+    const session = await joinSession(id, userId, participantName);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (!session.you) {
+      return NextResponse.json({ error: `This session already has ${MAX_PARTICIPANTS} participants` }, { status: 409 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error joining session:', error);
+    return NextResponse.json({ error: 'Failed to join session' }, { status: 500 });
+  }
+}
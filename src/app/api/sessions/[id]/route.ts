@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import { getSessionView } from '@/lib/sessions/store';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const session = await getSessionView(id, getUserId(request));
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return NextResponse.json({ error: 'Failed to read session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/library/request';
+import { getSessionView, toggleVote } from '@/lib/sessions/store';
+
+// Votes for a candidate, or takes the caller's vote back if they already voted for it
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+  const { id } = await params;
+
+  try {
+    const { placeId } = await request.json();
+    if (typeof placeId !== 'string' || !placeId) {
+      return NextResponse.json({ error: 'placeId is required' }, { status: 400 });
+    }
+
+    const current = await getSessionView(id, userId);
+    if (!current) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (!current.you) {
+      return NextResponse.json({ error: 'Join the session before voting' }, { status: 403 });
+    }
+    if (!current.candidates.some(candidate => candidate.placeId === placeId)) {
+      return NextResponse.json({ error: 'That restaurant is not part of this session' }, { status: 400 });
+    }
+
+    const session = await toggleVote(id, userId, placeId);
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error voting in session:', error);
+    return NextResponse.json({ error: 'Failed to record vote' }, { status: 500 });
+  }
+}
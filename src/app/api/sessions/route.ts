@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DishAvailability } from '@/lib/analysis/availability';
+import { getUserId } from '@/lib/library/request';
+import { cleanLibraryText, toLibraryPlace } from '@/lib/library/store';
+import {
+  cleanParticipantName,
+  createSession,
+  MAX_SESSION_CANDIDATES,
+  toDishAvailability,
+  toSessionCandidate,
+} from '@/lib/sessions/store';
+import { SessionCandidate } from '@/lib/sessions/types';
+
+// Starts a group session from a search result set; the creator is its first participant
+export async function POST(request: NextRequest) {
+  const userId = getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'A valid x-user-id header is required' }, { status: 400 });
+  }
+
+  try {
+    const { name, dish, sourceRestaurant, restaurants } = await request.json();
+
+    const participantName = cleanParticipantName(name);
+    const dishName = cleanLibraryText(dish);
+    if (!participantName || !dishName) {
+      return NextResponse.json({ error: 'Your name and the dish are required' }, { status: 400 });
+    }
+    const place = toLibraryPlace(sourceRestaurant);
+    if (place === undefined) {
+      return NextResponse.json({ error: 'Source restaurant needs a name' }, { status: 400 });
+    }
+    if (!Array.isArray(restaurants) || restaurants.length === 0 || restaurants.length > MAX_SESSION_CANDIDATES) {
+      return NextResponse.json(
+        { error: `A session needs between 1 and ${MAX_SESSION_CANDIDATES} restaurants` },
+        { status: 400 }
+      );
+    }
+
+    const candidates = restaurants.map(toSessionCandidate);
+    if (candidates.some(candidate => candidate === null)) {
+      return NextResponse.json({ error: 'Every restaurant needs a placeId, name, address and location' }, { status: 400 });
+    }
+
+    // Keep the scores the creator already saw, so starting a session costs no AI calls
+    const scores: Record<string, DishAvailability> = {};
+    for (const [index, restaurant] of restaurants.entries()) {
+      const availability = toDishAvailability(restaurant?.dishAvailability);
+      if (availability) scores[(candidates[index] as SessionCandidate).placeId] = availability;
+    }
+
+    const session = await createSession(userId, {
+      name: participantName,
+      dish: dishName,
+      sourceRestaurant: place,
+      candidates: candidates as SessionCandidate[],
+      scores,
+    });
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
+  }
+}
@@ -1,9 +1,50 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { Search, MapPin, Star, DollarSign, Utensils, Loader2, ChefHat, AlertCircle } from 'lucide-react';
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react';
+import { Search, MapPin, Star, DollarSign, Utensils, Loader2, ChefHat, AlertCircle, Bookmark, History, Trash2, Camera, ArrowLeftRight, Users } from 'lucide-react';
 import axios from 'axios';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
 import { useJsApiLoader, Autocomplete } from '@react-google-maps/api';
+import { readSSE } from '@/lib/sse-client';
+import {
+  clearSearchHistory,
+  loadHistory,
+  loadDietaryNeeds,
+  loadSavedDishes,
+  recordSearch,
+  removeSavedDish,
+  saveDietaryNeeds,
+  saveDishFingerprint,
+} from '@/lib/library/client';
+import { SavedDish, SearchHistoryEntry } from '@/lib/library/types';
+import { createGroupSession, loadDisplayName, saveDisplayName } from '@/lib/sessions/client';
+import { describeDistance, haversineDistanceMeters } from '@/lib/geo';
+import {
+  DIETARY_RESTRICTIONS,
+  DietaryAssessment,
+  DietaryRestriction,
+  DietaryStatus,
+  DishDietaryAssessment,
+} from '@/lib/dietary';
+import ResultsMap, { AvailabilityCategory } from '@/components/ResultsMap';
+import ResultControls from '@/components/ResultControls';
+import DishAnalysisCard, { DishAnalysis } from '@/components/DishAnalysisCard';
+import DishComparisonView, { DishComparison } from '@/components/DishComparisonView';
+import MealMatchMatrix, { DishMatch } from '@/components/MealMatchMatrix';
+import ReviewEvidence, { ReviewCitation } from '@/components/ReviewEvidence';
+import OtherLocations, { OtherLocation } from '@/components/OtherLocations';
+import PartialResultsNotice, { StageDegradation } from '@/components/PartialResultsNotice';
+import {
+  applyFilters,
+  applyMealFilters,
+  DEFAULT_RANKING_WEIGHTS,
+  rankMealRestaurants,
+  rankRestaurants,
+  RankingMode,
+  RankingWeights,
+  SearchFilters,
+} from '@/lib/ranking';
 
 
 
@@ -15,6 +56,7 @@ interface Restaurant {
   placeId: string;
   location: { lat: number; lng: number };
   types: string[];
+  openNow?: boolean;
   photos: Array<{
     photo_reference: string;
     height: number;
@@ -22,14 +64,28 @@ interface Restaurant {
   }>;
   phone?: string;
   website?: string;
-  dishAvailability: {
+  // Missing while a streamed search is still scoring
+  dishAvailability?: {
+    status: 'scored' | 'unscored';
     hasExactDish: boolean;
     hasSimilarDish: boolean;
     confidence: number;
     reasoning: string;
+    citations?: ReviewCitation[];
   };
+  flavorMatch?: {
+    score: number;
+    sharedDimensions: string[];
+    vector: Record<string, number>;
+  } | null;
+  closestMenuItems?: Array<{
+    name: string;
+    item: string;
+    score: number;
+  }>;
   menuInsights?: {
     dishes: string[];
+    items?: Array<{ dish: string; citations: ReviewCitation[]; support?: number }>;
     confidence: number;
   };
   tasteProfile?: {
@@ -39,7 +95,46 @@ interface Restaurant {
     specialties?: string[];
     confidence: number;
   };
+  dietary?: DietaryAssessment;
+  matchGroup?: 'same-dish' | 'flavor-twin';
+  flavorTwin?: FlavorTwin;
+  // Other branches of the same chain, collapsed into this result
+  otherLocations?: OtherLocation[];
+}
+
+// A place scored against every dish of a meal search
+interface MealRestaurant extends Restaurant {
+  dishMatches: DishMatch[];
+  coverage: number;
+  combinedScore: number;
+}
+
+// An extra dish row in the form; the restaurant is free text
+interface ExtraDish {
+  dish: string;
+  restaurant: string;
+}
 
+interface FlavorTwin {
+  dish: string;
+  cuisine: string;
+  why: string;
+}
+
+interface DishProfileSummary {
+  cuisineType: string;
+  flavorProfile: string[];
+  cookingStyle: string;
+}
+
+// What /api/identify-dish proposes for an uploaded photo
+interface DishIdentification {
+  candidates: Array<{ name: string; confidence: number }>;
+  dishProfile: DishProfileSummary & { analysis: string };
+}
+
+interface SearchDebugInfo {
+  cache?: Record<string, { hits: number; misses: number }>;
 }
 
 interface UserLocation {
@@ -50,10 +145,43 @@ interface UserLocation {
 interface SelectedPlace {
     name: string;
     address: string;
+    // Only set for autocomplete picks; lets the server exclude exactly this branch
+    placeId?: string;
+    location?: { lat: number; lng: number };
 }
 
 const libraries: "places"[] = ['places'];
 
+const getAvailabilityCategory = (restaurant: Restaurant): AvailabilityCategory => {
+  const availability = restaurant.dishAvailability;
+  if (!availability) return 'pending';
+  if (availability.status === 'unscored') return 'unscored';
+  if (availability.hasExactDish) return 'exact';
+  if (availability.hasSimilarDish) return 'similar';
+  return 'related';
+};
+
+// Map pins for a meal show how much of it each place covers
+const getMealCategory = (restaurant: MealRestaurant, dishCount: number): AvailabilityCategory => {
+  if (restaurant.dishMatches.length === 0) return 'pending';
+  if (restaurant.coverage === dishCount) return 'exact';
+  if (restaurant.coverage > 0) return 'similar';
+  return 'related';
+};
+
+const MAX_MEAL_DISHES = 4;
+
+const DIETARY_STATUS_STYLES: Record<DietaryStatus, { label: string; className: string }> = {
+  compatible: { label: 'Fits your diet', className: 'bg-green-50 text-green-700 border-green-200' },
+  caution: { label: 'Diet: ask staff', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  incompatible: { label: 'Diet conflict', className: 'bg-red-50 text-red-700 border-red-200' },
+  unknown: { label: 'Diet: unknown', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+};
+
+// Photos go through our proxy so the Places API key stays on the server
+const photoUrl = (photoReference: string, size: 'thumb' | 'medium' | 'large') =>
+  `/api/photo?ref=${encodeURIComponent(photoReference)}&size=${size}`;
+
 export default function Home() {
   const [dish, setDish] = useState('');
   const [selectedPlace, setSelectedPlace] = useState<SelectedPlace | null>(null);
@@ -67,12 +195,53 @@ export default function Home() {
   const [selectedRestaurant, setSelectedRestaurant] = useState<Restaurant | null>(null);
   const [dishToAnalyze, setDishToAnalyze] = useState('');
   const [isAnalyzingDish, setIsAnalyzingDish] = useState(false);
-  const [dishAnalysis, setDishAnalysis] = useState('');
+  const [dishAnalysis, setDishAnalysis] = useState<DishAnalysis | null>(null);
+  const [dishAnalysisError, setDishAnalysisError] = useState('');
+  const [analyzedDish, setAnalyzedDish] = useState('');
+  const [comparisons, setComparisons] = useState<DishComparison[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [dishDietary, setDishDietary] = useState<DishDietaryAssessment | null>(null);
+  const [dietary, setDietary] = useState<DietaryRestriction[]>([]);
+  // Dietary needs the current results were scored with
+  const [searchedDietary, setSearchedDietary] = useState<DietaryRestriction[]>([]);
+  const [exploreTwins, setExploreTwins] = useState(false);
+  const [flavorTwins, setFlavorTwins] = useState<FlavorTwin[]>([]);
+  const [extraDishes, setExtraDishes] = useState<ExtraDish[]>([]);
+  const [mealDishes, setMealDishes] = useState<string[]>([]);
+  const [mealRestaurants, setMealRestaurants] = useState<MealRestaurant[]>([]);
+  const [isStartingSession, setIsStartingSession] = useState(false);
+  const router = useRouter();
 
   // Debugging states
   const [debugMode, setDebugMode] = useState(false);
   const [fallbackInput, setFallbackInput] = useState('');
   const [useFallback, setUseFallback] = useState(false);
+  const [searchDebug, setSearchDebug] = useState<SearchDebugInfo | null>(null);
+  const [searchStage, setSearchStage] = useState('');
+
+  // Client-side filtering and ranking over the results we already have
+  const [filters, setFilters] = useState<SearchFilters>({ maxDistance: 8000 });
+  const [rankingMode, setRankingMode] = useState<RankingMode>('best-match');
+  const [rankingWeights, setRankingWeights] = useState<RankingWeights>(DEFAULT_RANKING_WEIGHTS);
+  const [searchedRadius, setSearchedRadius] = useState(0);
+  // Opaque cursor for the next page of the current search, null once it is exhausted
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Stages that gave up during the current search, across its pages
+  const [degraded, setDegraded] = useState<StageDegradation[]>([]);
+
+  // Persisted library: recent searches and saved dish fingerprints
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+  const [savedDishes, setSavedDishes] = useState<SavedDish[]>([]);
+  const [dishProfile, setDishProfile] = useState<DishProfileSummary | null>(null);
+  const [searchedDish, setSearchedDish] = useState('');
+  // Where the last single-dish search started from, so it can be rerun with a wider radius
+  const [searchedSource, setSearchedSource] = useState<{ place: SelectedPlace; profile: DishIdentification['dishProfile'] | null } | null>(null);
+
+  // Dish photo identification; the profile only applies once a candidate is confirmed
+  const [isIdentifying, setIsIdentifying] = useState(false);
+  const [photoIdentification, setPhotoIdentification] = useState<DishIdentification | null>(null);
+  const [confirmedPhotoDish, setConfirmedPhotoDish] = useState('');
 
   const autocompleteRef = useRef<google.maps.places.Autocomplete | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -99,6 +268,20 @@ export default function Home() {
     }
   }, [isLoaded, loadError, apiKey]);
 
+  useEffect(() => {
+    loadHistory().then(setHistory);
+    loadSavedDishes().then(setSavedDishes);
+    setDietary(loadDietaryNeeds());
+  }, []);
+
+  const toggleDietary = (restriction: DietaryRestriction) => {
+    const next = dietary.includes(restriction)
+      ? dietary.filter(value => value !== restriction)
+      : [...dietary, restriction];
+    setDietary(next);
+    saveDietaryNeeds(next);
+  };
+
   const getUserLocation = () => {
     console.log('📍 Getting user location...');
     setIsGettingLocation(true);
@@ -130,7 +313,13 @@ export default function Home() {
       const place = autocompleteRef.current.getPlace();
       console.log('📍 Selected place:', place);
       if (place && place.name && place.formatted_address) {
-        const selectedPlace = { name: place.name, address: place.formatted_address };
+        const location = place.geometry?.location;
+        const selectedPlace = {
+          name: place.name,
+          address: place.formatted_address,
+          ...(place.place_id ? { placeId: place.place_id } : {}),
+          ...(location ? { location: { lat: location.lat(), lng: location.lng() } } : {}),
+        };
         console.log('✅ Valid place selected:', selectedPlace);
         setSelectedPlace(selectedPlace);
         setError('');
@@ -167,12 +356,61 @@ export default function Home() {
     console.log('🏪 Selected place:', selectedPlace);
     console.log('📍 User location:', userLocation);
     
-    if (!dish.trim() || !selectedPlace) {
+    // A confirmed photo already describes the dish, so the restaurant becomes optional
+    const photoProfile = photoIdentification && confirmedPhotoDish && confirmedPhotoDish === dish.trim()
+      ? photoIdentification.dishProfile
+      : null;
+
+    // In a meal search every source restaurant is optional
+    const extras = extraDishes.filter(extra => extra.dish.trim());
+    if (!dish.trim() || (!selectedPlace && !photoProfile && extras.length === 0)) {
       const errorMsg = 'Please enter a dish and select a valid restaurant.';
       console.log('❌ Validation error:', errorMsg);
       setError(errorMsg);
       return;
     }
+    if (extras.length > 0) {
+      await runMealSearch(dish.trim(), extras);
+      return;
+    }
+    await runSearch(
+      dish.trim(),
+      selectedPlace || { name: 'Address not specified', address: 'Address not specified' },
+      photoProfile
+    );
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsIdentifying(true);
+    setError('');
+    setPhotoIdentification(null);
+    setConfirmedPhotoDish('');
+
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      const response = await axios.post<DishIdentification>('/api/identify-dish', formData);
+      console.log('📷 Dish identification:', response.data);
+      setPhotoIdentification(response.data);
+    } catch (error) {
+      console.error('❌ Identify dish error:', error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null;
+      setError(message || 'Could not identify the dish in that photo. Please try another one.');
+    } finally {
+      setIsIdentifying(false);
+    }
+  };
+
+  const handleConfirmPhotoDish = (name: string) => {
+    setDish(name);
+    setConfirmedPhotoDish(name);
+  };
+
+  const runSearch = async (searchDish: string, place: SelectedPlace, sourceProfile: DishIdentification['dishProfile'] | null = null) => {
     if (!userLocation) {
       const errorMsg = 'Please allow location access to find nearby restaurants.';
       console.log('❌ Location error:', errorMsg);
@@ -184,30 +422,281 @@ export default function Home() {
     setError('');
     setSelectedRestaurant(null);
     setRestaurants([]);
+    setDishProfile(null);
+    setSearchedDish(searchDish);
+    setSearchedSource({ place, profile: sourceProfile });
+    setComparisons([]);
+    setSearchedDietary(dietary);
+    setFlavorTwins([]);
+    setMealDishes([]);
+    setMealRestaurants([]);
+    setNextCursor(null);
+    setDegraded([]);
+
+    setSearchStage('Analyzing your dish...');
+    setSearchedRadius(filters.maxDistance || 8000);
 
     try {
-      console.log('📡 Making API call to /api/nearby');
-      const nearbyResponse = await axios.post('/api/nearby', {
-        dish: dish.trim(),
-        restaurant: selectedPlace,
-        latitude: userLocation.latitude,
-        longitude: userLocation.longitude,
-        radius: 8000,
+      console.log('📡 Streaming /api/nearby/stream');
+      const response = await fetch('/api/nearby/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dish: searchDish,
+          restaurant: place,
+          latitude: userLocation.latitude,
+          longitude: userLocation.longitude,
+          radius: filters.maxDistance || 8000,
+          // Keeps the server from widening the search past what the distance filter would show
+          ...(filters.maxDistance ? { filters: { maxDistance: filters.maxDistance } } : {}),
+          ...(sourceProfile ? { dishProfile: sourceProfile } : {}),
+          ...(dietary.length > 0 ? { dietary } : {}),
+          ...(exploreTwins ? { mode: 'flavor-twins' } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Nearby stream failed with status ${response.status}`);
+      }
+
+      let detailed = 0;
+      await readSSE(response, (event, data) => {
+        console.log('📨 Stream event:', event, data);
+        if (event === 'flavor-twins') {
+          const { flavorTwins: twins } = data as { flavorTwins: FlavorTwin[] };
+          setFlavorTwins(twins);
+          setSearchStage(`Looking for ${twins.map(twin => twin.dish).join(', ') || 'flavor twins'} too...`);
+        } else if (event === 'candidates') {
+          // A second batch arrives when the server widens the search
+          const { candidates } = data as { candidates: Restaurant[] };
+          setRestaurants(current => [...current, ...candidates.filter(candidate => !current.some(r => r.placeId === candidate.placeId))]);
+          setSearchStage(`Found ${candidates.length} candidates, reading their reviews...`);
+        } else if (event === 'restaurant') {
+          const { restaurant } = data as { restaurant: Restaurant };
+          detailed++;
+          setRestaurants(current => current.map(r => r.placeId === restaurant.placeId ? { ...r, ...restaurant } : r));
+          setSearchStage(`Profiled ${detailed} restaurant${detailed === 1 ? '' : 's'}, scoring matches...`);
+        } else if (event === 'result') {
+          const { result } = data as {
+            result: {
+              restaurants: Restaurant[];
+              dishProfile?: DishProfileSummary | null;
+              searchRadius: number;
+              nextCursor: string | null;
+              degraded: StageDegradation[];
+              debug?: SearchDebugInfo;
+              error?: string;
+            };
+          };
+          setRestaurants(result.restaurants);
+          setDishProfile(result.dishProfile || null);
+          setSearchedRadius(result.searchRadius);
+          setNextCursor(result.nextCursor);
+          setDegraded(result.degraded);
+          setSearchDebug(result.debug || null);
+          if (result.error) setError(result.error);
+          recordSearch({
+            dish: searchDish,
+            sourceRestaurant: place,
+            location: userLocation,
+            resultCount: result.restaurants.length,
+          }).then(setHistory);
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error);
+        }
       });
-      console.log('✅ Nearby response:', nearbyResponse.data);
-      setRestaurants(nearbyResponse.data.restaurants);
     } catch (error) {
       console.error('❌ API Error:', error);
       setError('Failed to find nearby restaurants. Please try again.');
     } finally {
       setIsLoading(false);
+      setSearchStage('');
     }
   };
   
+  // Next page of the current search. The server picks up where it stopped,
+  // without analyzing the dish again, and widens the search once nearby places run out.
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    setError('');
+    const shownIds = new Set(restaurants.map(restaurant => restaurant.placeId));
+
+    try {
+      const response = await fetch('/api/nearby/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cursor: nextCursor,
+          ...(filters.maxDistance ? { filters: { maxDistance: filters.maxDistance } } : {}),
+          ...(searchedDietary.length > 0 ? { dietary: searchedDietary } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Nearby stream failed with status ${response.status}`);
+      }
+
+      await readSSE(response, (event, data) => {
+        if (event === 'candidates') {
+          const { candidates } = data as { candidates: Restaurant[] };
+          setRestaurants(current => [...current, ...candidates.filter(candidate => !current.some(r => r.placeId === candidate.placeId))]);
+        } else if (event === 'restaurant') {
+          const { restaurant } = data as { restaurant: Restaurant };
+          setRestaurants(current => current.map(r => r.placeId === restaurant.placeId ? { ...r, ...restaurant } : r));
+        } else if (event === 'result') {
+          const { result } = data as {
+            result: { restaurants: Restaurant[]; searchRadius: number; nextCursor: string | null; degraded: StageDegradation[] };
+          };
+          setRestaurants(current => [...current.filter(r => shownIds.has(r.placeId)), ...result.restaurants]);
+          setSearchedRadius(result.searchRadius);
+          setNextCursor(result.nextCursor);
+          setDegraded(current => [...current, ...result.degraded]);
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error);
+        }
+      });
+    } catch (error) {
+      console.error('❌ Load more error:', error);
+      setError('Could not load more restaurants. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Several dishes at once: every place is scored against each of them
+  const runMealSearch = async (firstDish: string, extras: ExtraDish[]) => {
+    if (!userLocation) {
+      setError('Please allow location access to find nearby restaurants.');
+      return;
+    }
+
+    const dishes = [
+      { dish: firstDish, restaurant: selectedPlace },
+      ...extras.map(extra => ({
+        dish: extra.dish.trim(),
+        restaurant: extra.restaurant.trim() ? { name: extra.restaurant.trim(), address: 'Address not specified' } : null,
+      })),
+    ];
+
+    setIsLoading(true);
+    setError('');
+    setSelectedRestaurant(null);
+    setRestaurants([]);
+    setDishProfile(null);
+    setSearchedDish('');
+    setSearchedSource(null);
+    setComparisons([]);
+    setSearchedDietary(dietary);
+    setFlavorTwins([]);
+    setMealDishes(dishes.map(entry => entry.dish));
+    setMealRestaurants([]);
+    setNextCursor(null);
+    setDegraded([]);
+
+    setSearchStage('Analyzing your dishes...');
+    setSearchedRadius(filters.maxDistance || 8000);
+
+    try {
+      console.log('📡 Streaming meal search:', dishes);
+      const response = await fetch('/api/nearby/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dishes,
+          latitude: userLocation.latitude,
+          longitude: userLocation.longitude,
+          radius: filters.maxDistance || 8000,
+          ...(dietary.length > 0 ? { dietary } : {}),
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Meal stream failed with status ${response.status}`);
+      }
+
+      await readSSE(response, (event, data) => {
+        console.log('📨 Meal stream event:', event, data);
+        if (event === 'candidates') {
+          const { candidates } = data as { candidates: Restaurant[] };
+          setMealRestaurants(candidates.map(candidate => ({ ...candidate, dishMatches: [], coverage: 0, combinedScore: 0 })));
+          setSearchStage(`Found ${candidates.length} candidates, checking every dish...`);
+        } else if (event === 'restaurant') {
+          const { restaurant } = data as { restaurant: Restaurant };
+          setMealRestaurants(current => current.map(r => r.placeId === restaurant.placeId ? { ...r, ...restaurant } : r));
+        } else if (event === 'result') {
+          const { result } = data as {
+            result: { restaurants: MealRestaurant[]; degraded: StageDegradation[]; debug?: SearchDebugInfo; error?: string };
+          };
+          setMealRestaurants(result.restaurants);
+          setDegraded(result.degraded);
+          setSearchDebug(result.debug || null);
+          if (result.error) setError(result.error);
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error);
+        }
+      });
+    } catch (error) {
+      console.error('❌ Meal search error:', error);
+      setError('Failed to find restaurants for your meal. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setSearchStage('');
+    }
+  };
+
+  const updateExtraDish = (index: number, change: Partial<ExtraDish>) =>
+    setExtraDishes(current => current.map((extra, i) => i === index ? { ...extra, ...change } : extra));
+
+  const handleRerunSearch = (searchDish: string, place: SelectedPlace | null) => {
+    console.log('🔁 Re-running search:', searchDish, place);
+    const sourcePlace = place || { name: 'Address not specified', address: 'Address not specified' };
+    setDish(searchDish);
+    setSelectedPlace(sourcePlace);
+    runSearch(searchDish, sourcePlace);
+  };
+
+  const handleSaveDish = async () => {
+    if (!searchedDish) return;
+    console.log('🔖 Saving dish:', searchedDish);
+    setSavedDishes(await saveDishFingerprint({
+      name: searchedDish,
+      sourceRestaurant: selectedPlace,
+      dishProfile,
+    }));
+  };
+
+  // Shares the current results as a group session and opens it
+  const handleStartSession = async () => {
+    const name = window.prompt('Your name, so the group knows who started this', loadDisplayName())?.trim();
+    if (!name || !searchedDish) return;
+    saveDisplayName(name);
+    setIsStartingSession(true);
+    try {
+      const session = await createGroupSession({
+        name,
+        dish: searchedDish,
+        sourceRestaurant: selectedPlace && selectedPlace.name !== 'Address not specified' ? selectedPlace : null,
+        restaurants: visibleRestaurants,
+      });
+      console.log('🗳️ Group session created:', session.id);
+      router.push(`/sessions/${session.id}`);
+    } catch (error) {
+      console.error('❌ Group session error:', error);
+      setError('Could not start a group session. Please try again.');
+      setIsStartingSession(false);
+    }
+  };
+
+  const isDishSaved = savedDishes.some(saved =>
+    saved.name.toLowerCase() === searchedDish.toLowerCase() &&
+    saved.sourceRestaurant?.name === selectedPlace?.name
+  );
+
   const handleSelectRestaurant = (restaurant: Restaurant) => {
     console.log('🏪 Restaurant selected:', restaurant.name);
     setSelectedRestaurant(restaurant);
-    setDishAnalysis('');
+    setDishAnalysis(null);
+    setDishAnalysisError('');
+    setDishDietary(null);
     setDishToAnalyze('');
     setTimeout(() => {
       document.getElementById('dish-analysis-section')?.scrollIntoView({ behavior: 'smooth' });
@@ -219,25 +708,116 @@ export default function Home() {
     if (!dishToAnalyze.trim() || !selectedRestaurant) return;
     console.log('🔍 Analyzing dish:', dishToAnalyze, 'at', selectedRestaurant.name);
     setIsAnalyzingDish(true);
-    setDishAnalysis('');
+    setDishAnalysis(null);
+    setDishAnalysisError('');
+    setDishDietary(null);
     try {
       const response = await axios.post('/api/analyze-dish', {
         dishName: dishToAnalyze,
         restaurantName: selectedRestaurant.name,
         restaurantAddress: selectedRestaurant.address,
+        placeId: selectedRestaurant.placeId,
+        ...(dietary.length > 0 ? { dietary } : {}),
       });
       console.log('✅ Dish analysis:', response.data);
       setDishAnalysis(response.data.analysis);
+      setAnalyzedDish(dishToAnalyze);
+      setDishDietary(response.data.dietary || null);
     } catch (error) {
       console.error('❌ Dish analysis error:', error);
-      setDishAnalysis("Sorry, we couldn't analyze this dish at the moment.");
+      setDishAnalysisError("Sorry, we couldn't analyze this dish at the moment.");
     } finally {
       setIsAnalyzingDish(false);
     }
   };
 
+  // Only searches started from a real restaurant have a source dish to compare against
+  const canCompare = Boolean(searchedDish && selectedPlace && selectedPlace.name !== 'Address not specified');
+
+  const handleCompareDish = async () => {
+    if (!canCompare || !selectedPlace || !selectedRestaurant || !analyzedDish) return;
+    const alreadyCompared = comparisons.some(comparison =>
+      comparison.candidate.dishName === analyzedDish && comparison.candidate.restaurantName === selectedRestaurant.name
+    );
+    if (alreadyCompared) return;
+
+    console.log('⚖️ Comparing', searchedDish, 'with', analyzedDish, 'at', selectedRestaurant.name);
+    setIsComparing(true);
+    try {
+      const response = await axios.post<{ comparisons: DishComparison[] }>('/api/compare-dishes', {
+        source: { dishName: searchedDish, restaurantName: selectedPlace.name, restaurantAddress: selectedPlace.address },
+        candidates: [{ dishName: analyzedDish, restaurantName: selectedRestaurant.name, restaurantAddress: selectedRestaurant.address }],
+      });
+      console.log('✅ Comparison:', response.data);
+      setComparisons(current => [...response.data.comparisons, ...current]);
+    } catch (error) {
+      console.error('❌ Comparison error:', error);
+      setDishAnalysisError("Sorry, we couldn't compare these dishes at the moment.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
   const getPriceLevel = (level: number) => '$'.repeat(level || 1);
 
+  const getDistanceLabel = (restaurant: Restaurant) => userLocation
+    ? describeDistance(haversineDistanceMeters(
+        { lat: userLocation.latitude, lng: userLocation.longitude },
+        restaurant.location
+      ))
+    : null;
+
+  const mapUserLocation = useMemo(
+    () => userLocation ? { lat: userLocation.latitude, lng: userLocation.longitude } : null,
+    [userLocation]
+  );
+
+  const visibleRestaurants = useMemo(
+    () => rankRestaurants(
+      applyFilters(restaurants, filters, mapUserLocation),
+      rankingMode,
+      mapUserLocation,
+      rankingWeights,
+      filters.maxDistance
+    ),
+    [restaurants, filters, rankingMode, rankingWeights, mapUserLocation]
+  );
+
+  // Flavor twins are listed after every same-dish place, each group keeping its ranking
+  const groupedRestaurants = useMemo(() => [
+    ...visibleRestaurants.filter(restaurant => restaurant.matchGroup !== 'flavor-twin'),
+    ...visibleRestaurants.filter(restaurant => restaurant.matchGroup === 'flavor-twin'),
+  ], [visibleRestaurants]);
+  const hasFlavorTwins = groupedRestaurants.some(restaurant => restaurant.matchGroup === 'flavor-twin');
+
+  const isMealSearch = mealDishes.length > 0;
+  const visibleMealRestaurants = useMemo(
+    () => rankMealRestaurants(applyMealFilters(mealRestaurants, filters, mapUserLocation), rankingMode, mapUserLocation),
+    [mealRestaurants, filters, rankingMode, mapUserLocation]
+  );
+
+  // Memoized so the map only re-fits its bounds when results actually change
+  const mapRestaurants = useMemo(() => isMealSearch
+    ? visibleMealRestaurants.map(restaurant => ({
+        placeId: restaurant.placeId,
+        name: restaurant.name,
+        location: restaurant.location,
+        category: getMealCategory(restaurant, mealDishes.length),
+      }))
+    : visibleRestaurants.map(restaurant => ({
+        placeId: restaurant.placeId,
+        name: restaurant.name,
+        location: restaurant.location,
+        category: getAvailabilityCategory(restaurant),
+      })), [isMealSearch, visibleMealRestaurants, mealDishes.length, visibleRestaurants]);
+
+  const handleSelectOnMap = (placeId: string) => {
+    const restaurant = isMealSearch
+      ? mealRestaurants.find(r => r.placeId === placeId)
+      : restaurants.find(r => r.placeId === placeId);
+    if (restaurant) handleSelectRestaurant(restaurant);
+  };
+
   const shouldUseFallback = useFallback || !apiKey || loadError || !isLoaded;
 
   return (
@@ -298,6 +878,11 @@ export default function Home() {
                             <div>🏪 Selected Place: {selectedPlace ? selectedPlace.name : 'None'}</div>
                             <div>📍 User Location: {userLocation ? 'Available' : 'Not available'}</div>
                             <div>🔄 Using Fallback: {shouldUseFallback ? 'Yes' : 'No'}</div>
+                            {searchDebug?.cache && (
+                                <div>💾 Cache: {Object.entries(searchDebug.cache)
+                                    .map(([namespace, { hits, misses }]) => `${namespace} ${hits}/${hits + misses} hits`)
+                                    .join(', ') || 'No lookups'}</div>
+                            )}
                             <button 
                                 onClick={() => setUseFallback(!useFallback)}
                                 className="mt-2 px-2 py-1 bg-blue-500 text-white rounded text-xs"
@@ -337,6 +922,37 @@ export default function Home() {
                                 className="w-full px-6 py-4 bg-white/10 backdrop-blur-sm border-2 border-cyan-400/30 rounded-2xl focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400 text-white placeholder-gray-400 font-medium transition-all duration-300 hover:bg-white/15"
                                 disabled={isLoading}
                             />
+                            <label className={`inline-flex items-center text-xs text-cyan-300 cursor-pointer hover:text-cyan-200 ${isLoading || isIdentifying ? 'opacity-50 pointer-events-none' : ''}`}>
+                                {isIdentifying ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Camera className="w-4 h-4 mr-1" />}
+                                {isIdentifying ? 'Identifying your dish...' : 'Only have a photo? Upload it'}
+                                <input
+                                    type="file"
+                                    accept="image/jpeg,image/png,image/webp,image/gif"
+                                    onChange={handlePhotoUpload}
+                                    className="hidden"
+                                />
+                            </label>
+                            {photoIdentification && (
+                                <div className="space-y-2">
+                                    <p className="text-xs text-gray-400">Which one is it? {photoIdentification.dishProfile.cuisineType} · {photoIdentification.dishProfile.cookingStyle}</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {photoIdentification.candidates.map((candidate) => (
+                                            <button
+                                                key={candidate.name}
+                                                type="button"
+                                                onClick={() => handleConfirmPhotoDish(candidate.name)}
+                                                className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                                                    confirmedPhotoDish === candidate.name && dish.trim() === candidate.name
+                                                        ? 'bg-cyan-500/30 border-cyan-300 text-white'
+                                                        : 'bg-white/5 border-white/20 text-gray-300 hover:bg-white/10'
+                                                }`}
+                                            >
+                                                {candidate.name} ({candidate.confidence}%)
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                         
                         <div className="space-y-3">
@@ -369,7 +985,7 @@ export default function Home() {
                                     }}
                                     onPlaceChanged={handlePlaceChanged}
                                     options={{ 
-                                        fields: ["name", "formatted_address"],
+                                        fields: ["name", "formatted_address", "geometry", "place_id"],
                                         types: ["establishment"] 
                                     }}
                                 >
@@ -406,6 +1022,81 @@ export default function Home() {
                         </div>
                     </div>
 
+                    {extraDishes.map((extra, index) => (
+                        <div key={index} className="grid md:grid-cols-2 gap-4 items-center">
+                            <input
+                                type="text"
+                                value={extra.dish}
+                                onChange={(e) => updateExtraDish(index, { dish: e.target.value })}
+                                placeholder="Another dish (e.g., Pad Thai)"
+                                className="w-full px-4 py-3 bg-white/10 border-2 border-cyan-400/30 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-cyan-400"
+                                disabled={isLoading}
+                            />
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="text"
+                                    value={extra.restaurant}
+                                    onChange={(e) => updateExtraDish(index, { restaurant: e.target.value })}
+                                    placeholder="Where you had it (optional)"
+                                    className="w-full px-4 py-3 bg-white/10 border-2 border-pink-400/30 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-pink-400"
+                                    disabled={isLoading}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setExtraDishes(current => current.filter((_, i) => i !== index))}
+                                    className="text-gray-400 hover:text-pink-400"
+                                    aria-label="Remove dish"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {extraDishes.length < MAX_MEAL_DISHES - 1 && (
+                        <button
+                            type="button"
+                            onClick={() => setExtraDishes(current => [...current, { dish: '', restaurant: '' }])}
+                            disabled={isLoading}
+                            className="text-sm text-cyan-300 hover:text-cyan-200 font-semibold disabled:opacity-50"
+                        >
+                            + Add another dish for a group meal
+                        </button>
+                    )}
+
+                    <label className="flex items-center text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={exploreTwins && extraDishes.length === 0}
+                            onChange={(e) => setExploreTwins(e.target.checked)}
+                            disabled={isLoading || extraDishes.length > 0}
+                            className="mr-2 accent-pink-400"
+                        />
+                        🔀 Also explore flavor twins: similar dishes from other cuisines
+                    </label>
+
+                    <div className="space-y-3">
+                        <span className="block text-sm font-bold text-purple-300 uppercase tracking-wider">
+                            🥗 Any dietary needs?
+                        </span>
+                        <div className="flex flex-wrap gap-2">
+                            {DIETARY_RESTRICTIONS.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => toggleDietary(value)}
+                                    disabled={isLoading}
+                                    className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                                        dietary.includes(value)
+                                            ? 'bg-purple-500/30 border-purple-300 text-white'
+                                            : 'bg-white/5 border-white/20 text-gray-300 hover:bg-white/10'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <div className="flex items-center justify-between p-6 bg-gradient-to-r from-indigo-500/20 to-purple-500/20 backdrop-blur-sm rounded-2xl border border-white/20">
                         <div className="flex items-center">
                             <MapPin className="w-6 h-6 text-cyan-400 mr-3 animate-pulse" />
@@ -450,9 +1141,90 @@ export default function Home() {
                             )}
                         </div>
                     </button>
+                    {isLoading && searchStage && (
+                        <p className="text-center text-sm text-gray-300 animate-pulse">{searchStage}</p>
+                    )}
                 </form>
             </div>
-            {(restaurants.length > 0 || isLoading) && (
+            {(history.length > 0 || savedDishes.length > 0) && (
+            <div className="grid md:grid-cols-2 gap-6 mb-8">
+              {savedDishes.length > 0 && (
+                <div className="bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20 p-6">
+                  <h3 className="flex items-center text-sm font-bold text-cyan-300 uppercase tracking-wider mb-4">
+                    <Bookmark className="w-4 h-4 mr-2" />Saved dishes
+                  </h3>
+                  <ul className="space-y-2">
+                    {savedDishes.map(saved => (
+                      <li key={saved.id} className="flex items-center justify-between bg-white/5 rounded-xl px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-white text-sm font-semibold truncate">{saved.name}</p>
+                          <p className="text-gray-400 text-xs truncate">
+                            {saved.sourceRestaurant?.name || 'Any restaurant'}
+                            {saved.dishProfile && ` · ${saved.dishProfile.cuisineType} · ${saved.dishProfile.flavorProfile.join(', ') || saved.dishProfile.cookingStyle}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-3">
+                          <button
+                            type="button"
+                            onClick={() => handleRerunSearch(saved.name, saved.sourceRestaurant)}
+                            disabled={isLoading || !userLocation}
+                            className="px-3 py-1 text-xs bg-cyan-500/20 text-cyan-300 rounded-lg border border-cyan-400/30 hover:bg-cyan-500/30 disabled:opacity-50"
+                          >
+                            Search here
+                          </button>
+                          <button
+                            type="button"
+                            onClick={async () => setSavedDishes(await removeSavedDish(saved.id))}
+                            className="text-gray-400 hover:text-pink-400"
+                            aria-label={`Remove ${saved.name}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {history.length > 0 && (
+                <div className="bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="flex items-center text-sm font-bold text-pink-300 uppercase tracking-wider">
+                      <History className="w-4 h-4 mr-2" />Recent searches
+                    </h3>
+                    <button
+                      type="button"
+                      onClick={async () => {
+                        await clearSearchHistory();
+                        setHistory([]);
+                      }}
+                      className="text-xs text-gray-400 hover:text-pink-400"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <ul className="space-y-2">
+                    {history.slice(0, 5).map(entry => (
+                      <li key={entry.id}>
+                        <button
+                          type="button"
+                          onClick={() => handleRerunSearch(entry.dish, entry.sourceRestaurant)}
+                          disabled={isLoading || !userLocation}
+                          className="w-full text-left bg-white/5 hover:bg-white/10 rounded-xl px-3 py-2 disabled:opacity-50 transition-colors"
+                        >
+                          <p className="text-white text-sm font-semibold truncate">{entry.dish}</p>
+                          <p className="text-gray-400 text-xs truncate">
+                            {entry.sourceRestaurant?.name || 'Any restaurant'} · {entry.resultCount} results · {new Date(entry.createdAt).toLocaleDateString()}
+                          </p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+            )}
+            {(restaurants.length > 0 || mealRestaurants.length > 0 || isLoading) && (
             <div className="space-y-8">
               {restaurants.length > 0 && (
                 <div className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/20 p-8 hover:bg-white/15 transition-all duration-300">
@@ -466,10 +1238,76 @@ export default function Home() {
                       ? `🔥 Found restaurants that might serve ${dish} similar to how ${selectedPlace.name} prepares it. Click any spot to dive deeper!`
                       : '✨ Click on any restaurant to analyze their specific dishes!'}
                   </p>
+                  {!isLoading && searchedDish && (
+                    <button
+                      type="button"
+                      onClick={handleSaveDish}
+                      disabled={isDishSaved}
+                      className="mb-6 inline-flex items-center px-4 py-2 text-sm bg-white/10 text-cyan-300 rounded-xl border border-cyan-400/30 hover:bg-white/20 disabled:opacity-60 disabled:cursor-default font-semibold transition-all duration-300"
+                    >
+                      <Bookmark className={`w-4 h-4 mr-2 ${isDishSaved ? 'fill-current' : ''}`} />
+                      {isDishSaved ? 'Dish saved' : `Save ${searchedDish} to my dishes`}
+                    </button>
+                  )}
+                  {!isLoading && searchedDish && visibleRestaurants.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={handleStartSession}
+                      disabled={isStartingSession}
+                      className="mb-6 ml-3 inline-flex items-center px-4 py-2 text-sm bg-white/10 text-pink-300 rounded-xl border border-pink-400/30 hover:bg-white/20 disabled:opacity-60 font-semibold transition-all duration-300"
+                    >
+                      {isStartingSession ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Users className="w-4 h-4 mr-2" />}
+                      Decide with friends
+                    </button>
+                  )}
+                  <div className="mb-6 space-y-3">
+                    <ResultControls
+                      filters={filters}
+                      onFiltersChange={setFilters}
+                      ranking={rankingMode}
+                      onRankingChange={setRankingMode}
+                      weights={rankingWeights}
+                      onWeightsChange={setRankingWeights}
+                      showDietaryFilter={searchedDietary.length > 0}
+                    />
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>Showing {visibleRestaurants.length} of {restaurants.length} restaurants</span>
+                      {!isLoading && filters.maxDistance && filters.maxDistance > searchedRadius && searchedSource && (
+                        <button
+                          type="button"
+                          onClick={() => runSearch(searchedDish, searchedSource.place, searchedSource.profile)}
+                          className="text-cyan-300 hover:text-cyan-200 font-semibold"
+                        >
+                          Search again up to {filters.maxDistance / 1000} km away
+                        </button>
+                      )}
+                    </div>
+                    <PartialResultsNotice degraded={degraded} />
+                  </div>
+                  <div className="mb-6">
+                    <ResultsMap
+                      restaurants={mapRestaurants}
+                      userLocation={mapUserLocation}
+                      sourceRestaurant={selectedPlace}
+                      selectedPlaceId={selectedRestaurant?.placeId}
+                      onSelect={handleSelectOnMap}
+                      useFallback={Boolean(shouldUseFallback)}
+                    />
+                  </div>
+                  {flavorTwins.length > 0 && (
+                    <p className="text-xs text-pink-200 mb-4">
+                      Flavor twins searched: {flavorTwins.map(twin => `${twin.dish} (${twin.cuisine})`).join(', ')}
+                    </p>
+                  )}
                   <div className="space-y-4">
-                    {restaurants.map((restaurant, index) => (
+                    {groupedRestaurants.map((restaurant, index) => (
+                      <Fragment key={restaurant.placeId}>
+                      {hasFlavorTwins && (index === 0 || groupedRestaurants[index - 1].matchGroup !== restaurant.matchGroup) && (
+                        <h3 className="text-sm font-bold uppercase tracking-wider text-pink-300 pt-2">
+                          {restaurant.matchGroup === 'flavor-twin' ? '🔀 Flavor twins' : '🍽️ Same dish'}
+                        </h3>
+                      )}
                       <div 
-                        key={index} 
                         className={`bg-white/5 backdrop-blur-sm border-2 rounded-2xl p-6 transition-all duration-300 cursor-pointer hover:scale-105 ${
                           selectedRestaurant?.placeId === restaurant.placeId 
                             ? 'bg-gradient-to-r from-cyan-500/20 to-pink-500/20 border-cyan-400 shadow-2xl scale-105' 
@@ -478,9 +1316,37 @@ export default function Home() {
                         onClick={() => handleSelectRestaurant(restaurant)}
                       >
                         <div className="flex justify-between items-start mb-4">
-                          <div>
+                          <div className="flex items-start">
+                            {restaurant.photos.length > 0 && (
+                              <Image
+                                src={photoUrl(restaurant.photos[0].photo_reference, 'thumb')}
+                                alt={restaurant.name}
+                                width={64}
+                                height={64}
+                                unoptimized
+                                className="w-16 h-16 rounded-xl object-cover mr-4 flex-shrink-0"
+                              />
+                            )}
+                            <div>
                             <h3 className="font-black text-xl text-white mb-1">{restaurant.name}</h3>
                             <p className="text-gray-400 text-sm">{restaurant.address}</p>
+                            {restaurant.openNow !== undefined && (
+                              <p className={`text-xs mt-1 ${restaurant.openNow ? 'text-green-400' : 'text-gray-500'}`}>
+                                {restaurant.openNow ? 'Open now' : 'Closed now'}
+                              </p>
+                            )}
+                            {restaurant.flavorTwin && (
+                              <p className="text-xs text-pink-300 mt-1" title={restaurant.flavorTwin.why}>
+                                Flavor twin: {restaurant.flavorTwin.dish} ({restaurant.flavorTwin.cuisine})
+                              </p>
+                            )}
+                            {getDistanceLabel(restaurant) && (
+                              <p className="flex items-center text-cyan-300 text-xs mt-1">
+                                <MapPin className="w-3 h-3 mr-1" />{getDistanceLabel(restaurant)}
+                              </p>
+                            )}
+                            <OtherLocations locations={restaurant.otherLocations || []} origin={mapUserLocation} />
+                            </div>
                           </div>
                           <div className="flex items-center space-x-3 text-sm">
                             {restaurant.rating && (
@@ -499,40 +1365,82 @@ export default function Home() {
                         </div>
                         <div className="space-y-3">
                           {/* Dish Availability Status */}
-                          <div className={`rounded-lg p-4 ${
-                            restaurant.dishAvailability.hasExactDish 
-                              ? 'bg-green-100 border-2 border-green-300' 
-                              : restaurant.dishAvailability.hasSimilarDish 
-                                ? 'bg-yellow-100 border-2 border-yellow-300'
-                                : 'bg-gray-100 border-2 border-gray-300'
-                          }`}>
-                            <div className="flex items-center justify-between mb-2">
-                              <div className="flex items-center">
-                                {restaurant.dishAvailability.hasExactDish ? (
-                                  <div className="flex items-center text-green-700">
-                                    <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
-                                    <span className="font-semibold text-sm">Likely has exact dish</span>
-                                  </div>
-                                ) : restaurant.dishAvailability.hasSimilarDish ? (
-                                  <div className="flex items-center text-yellow-700">
-                                    <span className="w-2 h-2 bg-yellow-500 rounded-full mr-2"></span>
-                                    <span className="font-semibold text-sm">Likely has similar dish</span>
-                                  </div>
-                                ) : (
-                                  <div className="flex items-center text-gray-700">
-                                    <span className="w-2 h-2 bg-gray-500 rounded-full mr-2"></span>
-                                    <span className="font-semibold text-sm">May have related dishes</span>
+                          {restaurant.dishAvailability ? (
+                            <div className={`rounded-lg p-4 ${
+                              restaurant.dishAvailability.status === 'unscored'
+                                ? 'bg-gray-50 border-2 border-dashed border-gray-300'
+                                : restaurant.dishAvailability.hasExactDish 
+                                ? 'bg-green-100 border-2 border-green-300' 
+                                : restaurant.dishAvailability.hasSimilarDish 
+                                  ? 'bg-yellow-100 border-2 border-yellow-300'
+                                  : 'bg-gray-100 border-2 border-gray-300'
+                            }`}>
+                              <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center">
+                                  {restaurant.dishAvailability.status === 'unscored' ? (
+                                    <div className="flex items-center text-gray-500">
+                                      <span className="w-2 h-2 border border-gray-400 rounded-full mr-2"></span>
+                                      <span className="font-semibold text-sm">Not scored</span>
+                                    </div>
+                                  ) : restaurant.dishAvailability.hasExactDish ? (
+                                    <div className="flex items-center text-green-700">
+                                      <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
+                                      <span className="font-semibold text-sm">Likely has exact dish</span>
+                                    </div>
+                                  ) : restaurant.dishAvailability.hasSimilarDish ? (
+                                    <div className="flex items-center text-yellow-700">
+                                      <span className="w-2 h-2 bg-yellow-500 rounded-full mr-2"></span>
+                                      <span className="font-semibold text-sm">Likely has similar dish</span>
+                                    </div>
+                                  ) : (
+                                    <div className="flex items-center text-gray-700">
+                                      <span className="w-2 h-2 bg-gray-500 rounded-full mr-2"></span>
+                                      <span className="font-semibold text-sm">May have related dishes</span>
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  {restaurant.flavorMatch && (
+                                    <div className="text-xs font-medium px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-200">
+                                      {restaurant.flavorMatch.score}% flavor match
+                                    </div>
+                                  )}
+                                  <div className="text-xs font-medium px-2 py-1 rounded-full bg-white text-gray-800 border border-gray-200">
+                                    {restaurant.dishAvailability.status === 'unscored'
+                                      ? 'No AI verdict'
+                                      : `${restaurant.dishAvailability.confidence}% confidence`}
                                   </div>
-                                )}
-                              </div>
-                              <div className="text-xs font-medium px-2 py-1 rounded-full bg-white text-gray-800 border border-gray-200">
-                                {restaurant.dishAvailability.confidence}% confidence
+                                </div>
                               </div>
+                              <p className="text-xs text-gray-600">
+                                {restaurant.dishAvailability.reasoning}
+                              </p>
+                              <ReviewEvidence citations={restaurant.dishAvailability.citations || []} />
+                              {restaurant.closestMenuItems && restaurant.closestMenuItems.length > 0 && (
+                                <p className="text-xs text-gray-700 mt-1">
+                                  Closest menu item: <span className="font-semibold">{restaurant.closestMenuItems[0].name}</span> ({restaurant.closestMenuItems[0].score.toFixed(2)})
+                                </p>
+                              )}
+                              {restaurant.flavorMatch && restaurant.flavorMatch.sharedDimensions.length > 0 && (
+                                <p className="text-xs text-indigo-600 mt-1">
+                                  Shared: {restaurant.flavorMatch.sharedDimensions.join(', ')}
+                                </p>
+                              )}
+                              {restaurant.dietary && (
+                                <div className={`mt-2 rounded-md border px-2 py-1 text-xs ${DIETARY_STATUS_STYLES[restaurant.dietary.status].className}`}>
+                                  <span className="font-semibold">{DIETARY_STATUS_STYLES[restaurant.dietary.status].label}</span>: {restaurant.dietary.notes}
+                                  {restaurant.dietary.evidence.length > 0 && (
+                                    <p className="italic mt-1">&ldquo;{restaurant.dietary.evidence[0].quote}&rdquo;</p>
+                                  )}
+                                </div>
+                              )}
                             </div>
-                            <p className="text-xs text-gray-600">
-                              {restaurant.dishAvailability.reasoning}
-                            </p>
-                          </div>
+                          ) : (
+                            <div className="rounded-lg p-4 bg-white/5 border-2 border-dashed border-white/20 flex items-center text-gray-300">
+                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                              <span className="text-sm">Scoring this restaurant...</span>
+                            </div>
+                          )}
 
 
 
@@ -555,6 +1463,15 @@ export default function Home() {
                                   </span>
                                 )}
                               </div>
+                              {(restaurant.menuInsights.items || [])
+                                .filter(item => item.citations.length > 0)
+                                .slice(0, 3)
+                                .map(item => (
+                                  <div key={item.dish} className="mt-2 text-xs text-blue-800">
+                                    <span className="font-semibold">{item.dish.split(' - ')[0]}</span>
+                                    <ReviewEvidence citations={item.citations} className="text-blue-700" />
+                                  </div>
+                                ))}
                             </div>
                           )}
 
@@ -588,13 +1505,81 @@ export default function Home() {
                           )}
                         </div>
                       </div>
+                      </Fragment>
                     ))}
                   </div>
+                  {nextCursor && !isLoading && (
+                    <button
+                      type="button"
+                      onClick={handleLoadMore}
+                      disabled={isLoadingMore}
+                      className="mt-6 w-full inline-flex items-center justify-center px-4 py-3 text-sm bg-white/10 text-cyan-300 rounded-xl border border-cyan-400/30 hover:bg-white/20 disabled:opacity-60 font-semibold transition-all duration-300"
+                    >
+                      {isLoadingMore ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+                      {isLoadingMore ? 'Looking further...' : 'Load more restaurants'}
+                    </button>
+                  )}
+                </div>
+              )}
+              {mealRestaurants.length > 0 && (
+                <div className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/20 p-8">
+                  <h2 className="text-3xl font-black text-transparent bg-gradient-to-r from-cyan-400 to-pink-400 bg-clip-text mb-6">
+                    🍱 One stop for {mealDishes.join(', ')}
+                  </h2>
+                  <p className="text-gray-300 mb-6 text-lg leading-relaxed">
+                    Places that cover the most of your meal come first. Click any row to dive deeper!
+                  </p>
+                  <div className="mb-6 space-y-3">
+                    <ResultControls
+                      filters={filters}
+                      onFiltersChange={setFilters}
+                      ranking={rankingMode}
+                      onRankingChange={setRankingMode}
+                      weights={rankingWeights}
+                      onWeightsChange={setRankingWeights}
+                      showDietaryFilter={searchedDietary.length > 0}
+                    />
+                    <p className="text-xs text-gray-400">
+                      Showing {visibleMealRestaurants.length} of {mealRestaurants.length} restaurants
+                    </p>
+                    <PartialResultsNotice degraded={degraded} />
+                  </div>
+                  <div className="mb-6">
+                    <ResultsMap
+                      restaurants={mapRestaurants}
+                      userLocation={mapUserLocation}
+                      sourceRestaurant={selectedPlace}
+                      selectedPlaceId={selectedRestaurant?.placeId}
+                      onSelect={handleSelectOnMap}
+                      useFallback={Boolean(shouldUseFallback)}
+                    />
+                  </div>
+                  <MealMatchMatrix
+                    dishes={mealDishes}
+                    restaurants={visibleMealRestaurants}
+                    selectedPlaceId={selectedRestaurant?.placeId}
+                    onSelect={handleSelectOnMap}
+                  />
                 </div>
               )}
               {selectedRestaurant && (
                 <div id="dish-analysis-section" className="bg-white rounded-2xl shadow-xl p-8">
                   <h2 className="text-2xl font-bold text-gray-900 mb-2">Analyze a Dish from {selectedRestaurant.name}</h2>
+                  {selectedRestaurant.photos.length > 0 && (
+                    <div className="flex gap-3 overflow-x-auto mb-4">
+                      {selectedRestaurant.photos.map((photo) => (
+                        <Image
+                          key={photo.photo_reference}
+                          src={photoUrl(photo.photo_reference, 'medium')}
+                          alt={selectedRestaurant.name}
+                          width={160}
+                          height={120}
+                          unoptimized
+                          className="w-40 h-28 rounded-lg object-cover flex-shrink-0"
+                        />
+                      ))}
+                    </div>
+                  )}
                   <p className="text-gray-600 mb-6">Want to know more about a specific item on their menu? Let our AI analyze it for you.</p>
                   <form onSubmit={handleAnalyzeDishSubmit} className="space-y-4">
                     <input
@@ -617,14 +1602,64 @@ export default function Home() {
                       )}
                     </button>
                   </form>
+                  {dishAnalysisError && (
+                    <p className="mt-6 text-sm text-red-600">{dishAnalysisError}</p>
+                  )}
                   {dishAnalysis && (
                      <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-6">
-                       <h3 className="text-xl font-bold text-gray-900 mb-3">Analysis of {dishToAnalyze}</h3>
-                       <div className="prose prose-gray max-w-none">
-                         <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{dishAnalysis}</p>
-                       </div>
+                       <DishAnalysisCard dishName={analyzedDish} analysis={dishAnalysis} />
+                       {dishDietary && (
+                         <div className={`mt-4 rounded-lg border p-4 text-sm ${DIETARY_STATUS_STYLES[dishDietary.status].className}`}>
+                           <p><span className="font-semibold">{DIETARY_STATUS_STYLES[dishDietary.status].label}</span>: {dishDietary.notes}</p>
+                           {dishDietary.allergenWarnings.length > 0 && (
+                             <ul className="mt-2 list-disc list-inside">
+                               {dishDietary.allergenWarnings.map(warning => (
+                                 <li key={warning}>⚠️ {warning}</li>
+                               ))}
+                             </ul>
+                           )}
+                           {dishDietary.evidence.map((item, evidenceIndex) => (
+                             <p key={evidenceIndex} className="mt-2 italic">
+                               &ldquo;{item.quote}&rdquo;{item.author ? ` (${item.author})` : ''}
+                             </p>
+                           ))}
+                         </div>
+                       )}
+                       {canCompare && (
+                         <button
+                           type="button"
+                           onClick={handleCompareDish}
+                           disabled={isComparing}
+                           className="mt-4 inline-flex items-center text-sm font-semibold text-indigo-700 hover:text-indigo-900 disabled:opacity-50"
+                         >
+                           {isComparing
+                             ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                             : <ArrowLeftRight className="w-4 h-4 mr-2" />}
+                           Compare with your {searchedDish} from {selectedPlace?.name}
+                         </button>
+                       )}
                      </div>
                   )}
+                  {comparisons.length > 0 && (
+                    <div className="mt-6 space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-bold text-gray-900">Comparisons</h3>
+                        <button
+                          type="button"
+                          onClick={() => setComparisons([])}
+                          className="text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                      {comparisons.map(comparison => (
+                        <DishComparisonView
+                          key={`${comparison.candidate.restaurantName}:${comparison.candidate.dishName}`}
+                          comparison={comparison}
+                        />
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
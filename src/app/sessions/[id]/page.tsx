@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Check, Link2, Loader2, Star, ThumbsUp, Users } from 'lucide-react';
+import axios from 'axios';
+import {
+  addSessionDish,
+  fetchSession,
+  joinGroupSession,
+  loadDisplayName,
+  saveDisplayName,
+  sessionUrl,
+  toggleSessionVote,
+} from '@/lib/sessions/client';
+import { MAX_DISHES_PER_PARTICIPANT, SessionView } from '@/lib/sessions/types';
+import { AvailabilityCategory, CATEGORY_COLORS } from '@/components/ResultsMap';
+
+const getCategory = (availability: { status: string; hasExactDish: boolean; hasSimilarDish: boolean } | undefined): AvailabilityCategory => {
+  if (!availability) return 'pending';
+  if (availability.status === 'unscored') return 'unscored';
+  if (availability.hasExactDish) return 'exact';
+  if (availability.hasSimilarDish) return 'similar';
+  return 'related';
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : null) || fallback;
+
+export default function SessionPage() {
+  const { id } = useParams<{ id: string }>();
+  const [session, setSession] = useState<SessionView | null>(null);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [newDish, setNewDish] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [isAddingDish, setIsAddingDish] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setName(loadDisplayName());
+    fetchSession(id)
+      .then(setSession)
+      .catch(error => {
+        console.error('❌ Session load error:', error);
+        setError(errorMessage(error, 'Could not load this session.'));
+      });
+  }, [id]);
+
+  // The stream cannot identify us, so keep `you` from our own requests
+  useEffect(() => {
+    const events = new EventSource(`/api/sessions/${id}/events`);
+    events.addEventListener('session', (event) => {
+      const { session: update } = JSON.parse((event as MessageEvent).data) as { session: SessionView };
+      setSession(current => ({ ...update, you: current?.you ?? null }));
+    });
+    return () => events.close();
+  }, [id]);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsJoining(true);
+    setError('');
+    try {
+      saveDisplayName(name.trim());
+      setSession(await joinGroupSession(id, name.trim()));
+    } catch (error) {
+      console.error('❌ Join error:', error);
+      setError(errorMessage(error, 'Could not join this session.'));
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleAddDish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDish.trim()) return;
+    setIsAddingDish(true);
+    setError('');
+    try {
+      setSession(await addSessionDish(id, newDish.trim()));
+      setNewDish('');
+    } catch (error) {
+      console.error('❌ Add dish error:', error);
+      setError(errorMessage(error, 'Could not score your dish.'));
+    } finally {
+      setIsAddingDish(false);
+    }
+  };
+
+  const handleVote = async (placeId: string) => {
+    try {
+      setSession(await toggleSessionVote(id, placeId));
+    } catch (error) {
+      console.error('❌ Vote error:', error);
+      setError(errorMessage(error, 'Could not record your vote.'));
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(sessionUrl(id));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center">
+        {error
+          ? <p className="text-red-300">{error}</p>
+          : <Loader2 className="w-8 h-8 text-cyan-400 animate-spin" />}
+      </div>
+    );
+  }
+
+  const me = session.participants.find(participant => participant.id === session.you);
+  const candidatesById = new Map(session.candidates.map(candidate => [candidate.placeId, candidate]));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-sm text-cyan-300 hover:text-cyan-200">← DishHunt</Link>
+          <button
+            type="button"
+            onClick={handleCopyLink}
+            className="inline-flex items-center px-4 py-2 text-sm bg-white/10 text-cyan-300 rounded-xl border border-cyan-400/30 hover:bg-white/20 font-semibold"
+          >
+            {copied ? <Check className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+            {copied ? 'Link copied' : 'Copy invite link'}
+          </button>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-xl rounded-3xl border border-white/20 p-8">
+          <h1 className="text-3xl font-black text-transparent bg-gradient-to-r from-cyan-400 to-pink-400 bg-clip-text mb-2">
+            🗳️ Where should we eat?
+          </h1>
+          <p className="text-gray-300">
+            Started from {session.dish}{session.sourceRestaurant ? ` at ${session.sourceRestaurant.name}` : ''}.
+            Add your own favorite dish and vote for the places you like.
+          </p>
+          {error && <p className="mt-4 text-sm text-red-300">{error}</p>}
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-xl rounded-3xl border border-white/20 p-8 space-y-4">
+          <h2 className="flex items-center text-sm font-bold text-pink-300 uppercase tracking-wider">
+            <Users className="w-4 h-4 mr-2" />Who&apos;s coming ({session.participants.length})
+          </h2>
+          <ul className="space-y-2">
+            {session.participants.map(participant => (
+              <li key={participant.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-semibold text-white">{participant.name}{participant.id === session.you ? ' (you)' : ''}</span>
+                {participant.dishes.map(entry => (
+                  <span key={entry.dish} className="text-xs px-2 py-1 rounded-full bg-white/10 text-gray-200 border border-white/20">
+                    {entry.dish}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+
+          {!session.you ? (
+            <form onSubmit={handleJoin} className="flex space-x-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+                className="flex-1 px-4 py-3 bg-white/10 border-2 border-cyan-400/30 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-cyan-400"
+                disabled={isJoining}
+              />
+              <button
+                type="submit"
+                disabled={isJoining || !name.trim()}
+                className="px-6 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold disabled:opacity-50"
+              >
+                {isJoining ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Join'}
+              </button>
+            </form>
+          ) : me && me.dishes.length < MAX_DISHES_PER_PARTICIPANT && (
+            <form onSubmit={handleAddDish} className="flex space-x-2">
+              <input
+                type="text"
+                value={newDish}
+                onChange={(e) => setNewDish(e.target.value)}
+                placeholder="Your favorite dish (e.g., Pad Thai)"
+                className="flex-1 px-4 py-3 bg-white/10 border-2 border-pink-400/30 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-pink-400"
+                disabled={isAddingDish}
+              />
+              <button
+                type="submit"
+                disabled={isAddingDish || !newDish.trim()}
+                className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-500 text-white rounded-xl font-bold disabled:opacity-50"
+              >
+                {isAddingDish ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Add dish'}
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {session.ranking.map((entry, index) => {
+            const candidate = candidatesById.get(entry.placeId);
+            if (!candidate) return null;
+            const hasVoted = session.votes.some(vote => vote.participantId === session.you && vote.placeId === entry.placeId);
+            return (
+              <div key={entry.placeId} className="bg-white/5 backdrop-blur-sm border-2 border-white/20 rounded-2xl p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-bold text-white">{index + 1}. {candidate.name}</h3>
+                    <p className="text-xs text-gray-400">{candidate.address}</p>
+                    {candidate.rating && (
+                      <p className="flex items-center text-xs text-gray-300 mt-1">
+                        <Star className="w-3 h-3 mr-1 text-yellow-400 fill-current" />{candidate.rating}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className="text-sm font-semibold px-3 py-1 rounded-full bg-indigo-600 text-white">
+                      {entry.groupScore} group score
+                    </span>
+                    <p className="text-xs text-gray-400 mt-2">{entry.dishScore}% dish fit</p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {session.participants.flatMap(participant => participant.dishes.map(dish => {
+                    const availability = dish.scores[entry.placeId];
+                    return (
+                      <span
+                        key={`${participant.id}-${dish.dish}`}
+                        title={availability?.reasoning}
+                        className="text-xs font-semibold px-2 py-1 rounded-full text-gray-900"
+                        style={{ backgroundColor: CATEGORY_COLORS[getCategory(availability)] }}
+                      >
+                        {participant.name}: {dish.dish}
+                      </span>
+                    );
+                  }))}
+                </div>
+                <div className="flex items-center justify-between mt-4">
+                  <span className="text-xs text-gray-300">
+                    {entry.votes > 0 ? `${entry.votes} vote${entry.votes === 1 ? '' : 's'}: ${entry.voters.join(', ')}` : 'No votes yet'}
+                  </span>
+                  {session.you && (
+                    <button
+                      type="button"
+                      onClick={() => handleVote(entry.placeId)}
+                      className={`inline-flex items-center px-3 py-1 text-xs rounded-lg border font-semibold ${
+                        hasVoted
+                          ? 'bg-cyan-500/30 text-white border-cyan-300'
+                          : 'bg-white/5 text-cyan-300 border-cyan-400/30 hover:bg-white/10'
+                      }`}
+                    >
+                      <ThumbsUp className={`w-3 h-3 mr-1 ${hasVoted ? 'fill-current' : ''}`} />
+                      {hasVoted ? 'Voted' : 'Vote'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Flame, GlassWater } from 'lucide-react';
+
+// Mirrors the structured response of /api/analyze-dish
+export interface DishAnalysis {
+  summary: string;
+  cuisineType: string;
+  ingredients: string[];
+  flavors: Array<{ flavor: string; intensity: number }>;
+  textures: string[];
+  cookingMethod: string;
+  style: string;
+  drinkPairing: string;
+  spiceLevel: number;
+}
+
+interface DishAnalysisCardProps {
+  dishName: string;
+  analysis: DishAnalysis;
+}
+
+const MAX_SPICE_LEVEL = 5;
+
+function Chips({ items, className }: { items: string[]; className: string }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map(item => (
+        <span key={item} className={`text-xs px-2 py-1 rounded-full border ${className}`}>{item}</span>
+      ))}
+    </div>
+  );
+}
+
+export default function DishAnalysisCard({ dishName, analysis }: DishAnalysisCardProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <h3 className="text-xl font-bold text-gray-900">Analysis of {dishName}</h3>
+        <div className="flex items-center" title={`Spice level ${analysis.spiceLevel} of ${MAX_SPICE_LEVEL}`}>
+          {Array.from({ length: MAX_SPICE_LEVEL }, (_, level) => (
+            <Flame
+              key={level}
+              className={`w-4 h-4 ${level < analysis.spiceLevel ? 'text-red-500 fill-current' : 'text-gray-300'}`}
+            />
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-700 leading-relaxed">{analysis.summary}</p>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-800">Flavors</h4>
+          {analysis.flavors.map(({ flavor, intensity }) => (
+            <div key={flavor} className="flex items-center text-xs text-gray-700">
+              <span className="w-16 capitalize">{flavor}</span>
+              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden mx-2">
+                <div className="h-full bg-gradient-to-r from-orange-400 to-red-500" style={{ width: `${intensity * 10}%` }} />
+              </div>
+              <span className="w-6 text-right">{intensity}</span>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-3">
+          {analysis.ingredients.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Ingredients</h4>
+              <Chips items={analysis.ingredients} className="bg-white text-green-700 border-green-200" />
+            </div>
+          )}
+          {analysis.textures.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Textures</h4>
+              <Chips items={analysis.textures} className="bg-white text-purple-700 border-purple-200" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        {analysis.cuisineType && <span><span className="font-semibold">Cuisine:</span> {analysis.cuisineType}</span>}
+        {analysis.cookingMethod && <span><span className="font-semibold">Method:</span> {analysis.cookingMethod}</span>}
+        {analysis.style && <span><span className="font-semibold">Style:</span> {analysis.style}</span>}
+      </div>
+      {analysis.drinkPairing && (
+        <p className="flex items-center text-sm text-gray-700">
+          <GlassWater className="w-4 h-4 mr-2 text-blue-500" />{analysis.drinkPairing}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { Flame } from 'lucide-react';
+import { DishAnalysis } from './DishAnalysisCard';
+
+type FlavorDiffEntry = { flavor: string; sourceIntensity: number; candidateIntensity: number };
+
+// Mirrors one entry of the /api/compare-dishes response
+export interface DishComparison {
+  source: { dishName: string; restaurantName: string; analysis: DishAnalysis };
+  candidate: { dishName: string; restaurantName: string; analysis: DishAnalysis };
+  similarity: number;
+  flavors: {
+    shared: FlavorDiffEntry[];
+    onlySource: FlavorDiffEntry[];
+    onlyCandidate: FlavorDiffEntry[];
+    sharedDimensions: string[];
+  };
+  textures: { shared: string[]; onlySource: string[]; onlyCandidate: string[] };
+  cookingStyle: { source: string; candidate: string; same: boolean };
+  heat: { source: number; candidate: number; difference: number };
+  whatYoullNotice: string;
+}
+
+interface DishComparisonViewProps {
+  comparison: DishComparison;
+}
+
+function IntensityBar({ value, shared }: { value: number; shared: boolean }) {
+  return (
+    <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+      <div
+        className={`h-full ${shared ? 'bg-indigo-500' : 'bg-gray-400'}`}
+        style={{ width: `${value * 10}%` }}
+      />
+    </div>
+  );
+}
+
+function HeatLevel({ level }: { level: number }) {
+  return (
+    <span className="inline-flex">
+      {Array.from({ length: 5 }, (_, index) => (
+        <Flame key={index} className={`w-3 h-3 ${index < level ? 'text-red-500 fill-current' : 'text-gray-300'}`} />
+      ))}
+    </span>
+  );
+}
+
+export default function DishComparisonView({ comparison }: DishComparisonViewProps) {
+  const { source, candidate, flavors, textures, cookingStyle, heat } = comparison;
+  const sharedFlavors = new Set(flavors.shared.map(entry => entry.flavor));
+  const allFlavors = [...flavors.shared, ...flavors.onlySource, ...flavors.onlyCandidate];
+  const sharedTextures = new Set(textures.shared);
+
+  const columns = [
+    { key: 'source' as const, title: 'Your dish', dish: source, textures: [...textures.shared, ...textures.onlySource], heat: heat.source, method: cookingStyle.source },
+    { key: 'candidate' as const, title: 'This dish', dish: candidate, textures: [...textures.shared, ...textures.onlyCandidate], heat: heat.candidate, method: cookingStyle.candidate },
+  ];
+
+  return (
+    <div className="border border-indigo-200 rounded-lg bg-indigo-50/50 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-900">
+          {source.dishName} vs {candidate.dishName}
+        </h3>
+        <span className="text-sm font-semibold px-3 py-1 rounded-full bg-indigo-600 text-white">
+          {comparison.similarity}% similar
+        </span>
+      </div>
+      {comparison.whatYoullNotice && (
+        <p className="text-sm text-gray-700 italic">{comparison.whatYoullNotice}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-6">
+        {columns.map(column => (
+          <div key={column.key} className="space-y-3">
+            <div>
+              <p className="text-xs uppercase tracking-wider text-gray-500">{column.title}</p>
+              <p className="font-semibold text-gray-900">{column.dish.dishName}</p>
+              <p className="text-xs text-gray-500">{column.dish.restaurantName}</p>
+            </div>
+            <div className="space-y-1">
+              {allFlavors.map(entry => {
+                const value = column.key === 'source' ? entry.sourceIntensity : entry.candidateIntensity;
+                return (
+                  <div key={entry.flavor} className={`flex items-center text-xs ${value > 0 ? 'text-gray-700' : 'text-gray-300'}`}>
+                    <span className="w-16 capitalize">{entry.flavor}</span>
+                    <IntensityBar value={value} shared={sharedFlavors.has(entry.flavor)} />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {column.textures.map(texture => (
+                <span
+                  key={texture}
+                  className={`text-xs px-2 py-1 rounded-full border ${
+                    sharedTextures.has(texture)
+                      ? 'bg-indigo-100 text-indigo-700 border-indigo-200'
+                      : 'bg-white text-gray-600 border-gray-200'
+                  }`}
+                >
+                  {texture}
+                </span>
+              ))}
+            </div>
+            <p className={`text-xs ${cookingStyle.same ? 'text-indigo-700' : 'text-gray-700'}`}>
+              <span className="font-semibold">Method:</span> {column.method || 'unknown'}
+            </p>
+            <p className="text-xs text-gray-700 flex items-center">
+              <span className="font-semibold mr-1">Heat:</span><HeatLevel level={column.heat} />
+            </p>
+          </div>
+        ))}
+      </div>
+      {heat.difference !== 0 && (
+        <p className="text-xs text-gray-600">
+          {heat.difference > 0 ? `${heat.difference} level${heat.difference === 1 ? '' : 's'} hotter` : `${-heat.difference} level${heat.difference === -1 ? '' : 's'} milder`} than your dish.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { Star } from 'lucide-react';
+import OtherLocations, { OtherLocation } from './OtherLocations';
+import { AvailabilityCategory, CATEGORY_COLORS } from './ResultsMap';
+
+// Mirrors one entry of `dishMatches` in a meal search response
+export interface DishMatch {
+  dish: string;
+  dishAvailability: {
+    status: 'scored' | 'unscored';
+    hasExactDish: boolean;
+    hasSimilarDish: boolean;
+    confidence: number;
+    reasoning: string;
+  };
+  flavorMatch: { score: number; sharedDimensions: string[] } | null;
+  closestMenuItems: Array<{ name: string; item: string; score: number }>;
+}
+
+export interface MealMatrixRestaurant {
+  placeId: string;
+  name: string;
+  rating: number;
+  otherLocations?: OtherLocation[];
+  // Empty while a streamed meal search is still scoring
+  dishMatches: DishMatch[];
+  coverage: number;
+  combinedScore: number;
+}
+
+interface MealMatchMatrixProps {
+  dishes: string[];
+  restaurants: MealMatrixRestaurant[];
+  selectedPlaceId?: string;
+  onSelect: (placeId: string) => void;
+}
+
+export function dishMatchCategory(match: DishMatch | undefined): AvailabilityCategory {
+  if (!match) return 'pending';
+  if (match.dishAvailability.status === 'unscored') return 'unscored';
+  if (match.dishAvailability.hasExactDish) return 'exact';
+  if (match.dishAvailability.hasSimilarDish) return 'similar';
+  return 'related';
+}
+
+const CELL_LABELS: Record<AvailabilityCategory, string> = {
+  exact: 'Exact',
+  similar: 'Similar',
+  related: 'Related',
+  unscored: 'Not scored',
+  pending: '...',
+};
+
+export default function MealMatchMatrix({ dishes, restaurants, selectedPlaceId, onSelect }: MealMatchMatrixProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider text-gray-400">
+            <th className="px-3 py-2">Restaurant</th>
+            {dishes.map(dish => (
+              <th key={dish} className="px-3 py-2">{dish}</th>
+            ))}
+            <th className="px-3 py-2 text-right">Coverage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {restaurants.map(restaurant => (
+            <tr
+              key={restaurant.placeId}
+              onClick={() => onSelect(restaurant.placeId)}
+              className={`cursor-pointer border-t border-white/10 transition-colors ${
+                restaurant.placeId === selectedPlaceId ? 'bg-white/20' : 'hover:bg-white/10'
+              }`}
+            >
+              <td className="px-3 py-3">
+                <p className="font-semibold text-white">{restaurant.name}</p>
+                {restaurant.rating > 0 && (
+                  <p className="flex items-center text-xs text-gray-400">
+                    <Star className="w-3 h-3 mr-1 text-yellow-400 fill-current" />{restaurant.rating}
+                  </p>
+                )}
+                <OtherLocations locations={restaurant.otherLocations || []} className="text-gray-400" />
+              </td>
+              {dishes.map((dish, index) => {
+                const match = restaurant.dishMatches[index];
+                const category = dishMatchCategory(match);
+                return (
+                  <td key={dish} className="px-3 py-3" title={match?.dishAvailability.reasoning}>
+                    <span
+                      className="inline-block text-xs font-semibold px-2 py-1 rounded-full text-gray-900"
+                      style={{ backgroundColor: CATEGORY_COLORS[category] }}
+                    >
+                      {CELL_LABELS[category]}
+                      {match?.dishAvailability.status === 'scored' && ` · ${match.dishAvailability.confidence}%`}
+                    </span>
+                  </td>
+                );
+              })}
+              <td className="px-3 py-3 text-right text-white">
+                {restaurant.dishMatches.length > 0 ? (
+                  <>
+                    <span className="font-bold">{restaurant.coverage}/{dishes.length}</span>
+                    <span className="block text-xs text-gray-400">{restaurant.combinedScore}% match</span>
+                  </>
+                ) : (
+                  <span className="text-xs text-gray-400">Scoring...</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { MapPin, Star } from 'lucide-react';
+import { describeDistance, haversineDistanceMeters } from '@/lib/geo';
+
+// Mirrors a collapsed chain branch in the /api/nearby response
+export interface OtherLocation {
+  placeId: string;
+  name: string;
+  address: string;
+  location: { lat: number; lng: number };
+  rating?: number;
+}
+
+interface OtherLocationsProps {
+  locations: OtherLocation[];
+  origin?: { lat: number; lng: number } | null;
+  className?: string;
+}
+
+// Collapsed by default, like review evidence; clicks inside stay out of the card
+export default function OtherLocations({ locations, origin, className = 'text-gray-300' }: OtherLocationsProps) {
+  if (locations.length === 0) return null;
+
+  return (
+    <details className={`mt-1 text-xs ${className}`} onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer select-none">
+        Also at {locations.length} other location{locations.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-1 space-y-1">
+        {locations.map(location => (
+          <li key={location.placeId} className="flex items-start">
+            <MapPin className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 opacity-60" />
+            <span>
+              {location.address}
+              {location.rating !== undefined && (
+                <> · <Star className="inline w-3 h-3 -mt-0.5 fill-current" /> {location.rating}</>
+              )}
+              {origin && ` · ${describeDistance(haversineDistanceMeters(origin, location.location))}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
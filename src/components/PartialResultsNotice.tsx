@@ -0,0 +1,45 @@
+'use client';
+
+import { AlertCircle } from 'lucide-react';
+
+// Mirrors a degraded stage in the /api/nearby response
+export interface StageDegradation {
+  stage: string;
+  placeIds: string[];
+  reason: 'timeout' | 'failed';
+  message: string;
+}
+
+interface PartialResultsNoticeProps {
+  degraded: StageDegradation[];
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  'dish-profile': 'dish analysis',
+  'flavor-twins': 'flavor twins',
+  'text-search': 'place search',
+  'place-details': 'place details',
+  'menu-insights': 'menu extraction',
+  'taste-profile': 'taste profiles',
+  'menu-match': 'menu matching',
+  'availability': 'dish scoring',
+  'dietary': 'dietary checks',
+};
+
+// Results are still listed when a stage gives up; this says which data is missing
+export default function PartialResultsNotice({ degraded }: PartialResultsNoticeProps) {
+  if (degraded.length === 0) return null;
+
+  const stages = [...new Set(degraded.map(entry => STAGE_LABELS[entry.stage] || entry.stage))];
+  const placeCount = new Set(degraded.flatMap(entry => entry.placeIds)).size;
+
+  return (
+    <div className="flex items-start text-xs text-yellow-200 bg-yellow-500/10 border border-yellow-400/30 rounded-xl px-3 py-2">
+      <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+      <span>
+        Partial results: {stages.join(', ')} timed out or failed
+        {placeCount > 0 ? ` for ${placeCount} place${placeCount === 1 ? '' : 's'}, shown with less detail.` : '.'}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { SlidersHorizontal } from 'lucide-react';
+import { RankingMode, RankingWeights, SearchFilters } from '@/lib/ranking';
+
+interface ResultControlsProps {
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  ranking: RankingMode;
+  onRankingChange: (ranking: RankingMode) => void;
+  weights: RankingWeights;
+  onWeightsChange: (weights: RankingWeights) => void;
+  // Only offered when the search declared dietary needs
+  showDietaryFilter?: boolean;
+}
+
+const DISTANCE_OPTIONS = [1000, 2000, 5000, 8000, 15000, 25000];
+const RATING_OPTIONS = [0, 3.5, 4, 4.5];
+const RANKING_OPTIONS: Array<{ value: RankingMode; label: string }> = [
+  { value: 'best-match', label: 'Best match' },
+  { value: 'closest', label: 'Closest' },
+  { value: 'best-rated', label: 'Best rated' },
+  { value: 'blended', label: 'Blended' },
+];
+
+const selectClassName = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm focus:ring-2 focus:ring-cyan-400';
+
+export default function ResultControls({
+  filters,
+  onFiltersChange,
+  ranking,
+  onRankingChange,
+  weights,
+  onWeightsChange,
+  showDietaryFilter = false,
+}: ResultControlsProps) {
+  const update = (change: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...change });
+
+  return (
+    <div className="bg-white/5 rounded-2xl border border-white/20 p-4 space-y-4">
+      <div className="flex items-center text-sm font-bold text-cyan-300 uppercase tracking-wider">
+        <SlidersHorizontal className="w-4 h-4 mr-2" />Filter & rank
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Max distance</span>
+          <select
+            value={filters.maxDistance || 8000}
+            onChange={(e) => update({ maxDistance: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {DISTANCE_OPTIONS.map(meters => (
+              <option key={meters} value={meters} className="text-gray-900">{meters / 1000} km</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Price</span>
+          <div className="flex space-x-1">
+            <select
+              value={filters.minPrice ?? 0}
+              onChange={(e) => update({ minPrice: Number(e.target.value) })}
+              className={selectClassName}
+              aria-label="Minimum price level"
+            >
+              {[0, 1, 2, 3, 4].map(level => (
+                <option key={level} value={level} className="text-gray-900">{level === 0 ? 'Free' : '$'.repeat(level)}</option>
+              ))}
+            </select>
+            <select
+              value={filters.maxPrice ?? 4}
+              onChange={(e) => update({ maxPrice: Number(e.target.value) })}
+              className={selectClassName}
+              aria-label="Maximum price level"
+            >
+              {[0, 1, 2, 3, 4].map(level => (
+                <option key={level} value={level} className="text-gray-900">{level === 0 ? 'Free' : '$'.repeat(level)}</option>
+              ))}
+            </select>
+          </div>
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Min rating</span>
+          <select
+            value={filters.minRating || 0}
+            onChange={(e) => update({ minRating: Number(e.target.value) || undefined })}
+            className={selectClassName}
+          >
+            {RATING_OPTIONS.map(rating => (
+              <option key={rating} value={rating} className="text-gray-900">{rating === 0 ? 'Any' : `${rating}+`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Rank by</span>
+          <select
+            value={ranking}
+            onChange={(e) => onRankingChange(e.target.value as RankingMode)}
+            className={selectClassName}
+          >
+            {RANKING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} className="text-gray-900">{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={Boolean(filters.exactOnly)}
+            onChange={(e) => update({ exactOnly: e.target.checked })}
+            className="mr-2 accent-cyan-400"
+          />
+          Exact dish only
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={Boolean(filters.openNow)}
+            onChange={(e) => update({ openNow: e.target.checked })}
+            className="mr-2 accent-cyan-400"
+          />
+          Open now
+        </label>
+        {showDietaryFilter && (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={Boolean(filters.hideIncompatible)}
+              onChange={(e) => update({ hideIncompatible: e.target.checked })}
+              className="mr-2 accent-cyan-400"
+            />
+            Hide dietary conflicts
+          </label>
+        )}
+      </div>
+      {ranking === 'blended' && (
+        <div className="grid md:grid-cols-3 gap-3">
+          {(Object.keys(weights) as Array<keyof RankingWeights>).map(key => (
+            <label key={key} className="text-xs text-gray-300 space-y-1">
+              <span className="capitalize">{key} weight: {Math.round(weights[key] * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={weights[key]}
+                onChange={(e) => onWeightsChange({ ...weights, [key]: Number(e.target.value) })}
+                className="w-full accent-pink-400"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
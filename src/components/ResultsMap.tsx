@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GoogleMap, MarkerF } from '@react-google-maps/api';
+import { describeDistance, haversineDistanceMeters, LatLng } from '@/lib/geo';
+
+export type AvailabilityCategory = 'exact' | 'similar' | 'related' | 'unscored' | 'pending';
+
+export interface MapRestaurant {
+  placeId: string;
+  name: string;
+  location: LatLng;
+  category: AvailabilityCategory;
+}
+
+interface ResultsMapProps {
+  restaurants: MapRestaurant[];
+  userLocation: LatLng | null;
+  sourceRestaurant?: { name: string; location?: LatLng } | null;
+  selectedPlaceId?: string;
+  onSelect: (placeId: string) => void;
+  // When the Maps JS API is unavailable, render a plain list instead
+  useFallback: boolean;
+}
+
+export const CATEGORY_COLORS: Record<AvailabilityCategory, string> = {
+  exact: '#22c55e',
+  similar: '#eab308',
+  related: '#9ca3af',
+  unscored: '#e5e7eb',
+  pending: '#a78bfa',
+};
+
+const CATEGORY_LABELS: Record<AvailabilityCategory, string> = {
+  exact: 'Exact dish',
+  similar: 'Similar dish',
+  related: 'Related dishes',
+  unscored: 'Not scored',
+  pending: 'Scoring...',
+};
+
+const USER_COLOR = '#3b82f6';
+const SOURCE_COLOR = '#ec4899';
+
+function pin(color: string, scale: number): google.maps.Symbol {
+  return {
+    path: google.maps.SymbolPath.CIRCLE,
+    fillColor: color,
+    fillOpacity: 1,
+    strokeColor: '#ffffff',
+    strokeWeight: 2,
+    scale,
+  };
+}
+
+export default function ResultsMap({
+  restaurants,
+  userLocation,
+  sourceRestaurant,
+  selectedPlaceId,
+  onSelect,
+  useFallback,
+}: ResultsMapProps) {
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+
+  // Keep every pin in view as results stream in
+  useEffect(() => {
+    if (!map) return;
+    const bounds = new google.maps.LatLngBounds();
+    restaurants.forEach(restaurant => bounds.extend(restaurant.location));
+    if (userLocation) bounds.extend(userLocation);
+    if (sourceRestaurant?.location) bounds.extend(sourceRestaurant.location);
+    if (!bounds.isEmpty()) map.fitBounds(bounds, 48);
+  }, [map, restaurants, userLocation, sourceRestaurant]);
+
+  if (useFallback) {
+    return (
+      <div className="bg-white/5 rounded-2xl border border-white/20 p-4">
+        <p className="text-xs text-gray-400 mb-3">Map unavailable, showing locations as a list.</p>
+        <ul className="space-y-2">
+          {restaurants.map(restaurant => (
+            <li key={restaurant.placeId}>
+              <button
+                type="button"
+                onClick={() => onSelect(restaurant.placeId)}
+                className={`w-full flex items-center justify-between text-left text-sm px-3 py-2 rounded-xl transition-colors ${
+                  selectedPlaceId === restaurant.placeId ? 'bg-cyan-500/20 text-white' : 'text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                <span className="flex items-center">
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: CATEGORY_COLORS[restaurant.category] }}></span>
+                  {restaurant.name}
+                </span>
+                {userLocation && (
+                  <span className="text-xs text-gray-400">
+                    {describeDistance(haversineDistanceMeters(userLocation, restaurant.location))}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl overflow-hidden border border-white/20">
+      <GoogleMap
+        mapContainerClassName="w-full h-80"
+        center={userLocation || restaurants[0]?.location}
+        zoom={13}
+        onLoad={setMap}
+        onUnmount={() => setMap(null)}
+        options={{ streetViewControl: false, mapTypeControl: false, fullscreenControl: false }}
+      >
+        {userLocation && (
+          <MarkerF position={userLocation} title="You are here" icon={pin(USER_COLOR, 7)} zIndex={1} />
+        )}
+        {sourceRestaurant?.location && (
+          <MarkerF
+            position={sourceRestaurant.location}
+            title={`${sourceRestaurant.name} (where you had it)`}
+            icon={pin(SOURCE_COLOR, 9)}
+            zIndex={2}
+          />
+        )}
+        {restaurants.map(restaurant => (
+          <MarkerF
+            key={restaurant.placeId}
+            position={restaurant.location}
+            title={`${restaurant.name} · ${CATEGORY_LABELS[restaurant.category]}`}
+            icon={pin(CATEGORY_COLORS[restaurant.category], selectedPlaceId === restaurant.placeId ? 12 : 8)}
+            zIndex={selectedPlaceId === restaurant.placeId ? 10 : 3}
+            onClick={() => onSelect(restaurant.placeId)}
+          />
+        ))}
+      </GoogleMap>
+      <div className="flex flex-wrap gap-3 px-4 py-2 bg-black/30 text-xs text-gray-300">
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: USER_COLOR }}></span>You</span>
+        {sourceRestaurant?.location && (
+          <span className="flex items-center"><span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: SOURCE_COLOR }}></span>{sourceRestaurant.name}</span>
+        )}
+        {(['exact', 'similar', 'related'] as const).map(category => (
+          <span key={category} className="flex items-center">
+            <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CATEGORY_COLORS[category] }}></span>
+            {CATEGORY_LABELS[category]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
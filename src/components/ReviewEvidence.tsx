@@ -0,0 +1,51 @@
+'use client';
+
+import { Quote, Star } from 'lucide-react';
+
+// Mirrors a citation in the /api/nearby response
+export interface ReviewCitation {
+  quote: string;
+  author?: string;
+  rating?: number;
+  time?: number;
+  relativeTime?: string;
+}
+
+interface ReviewEvidenceProps {
+  citations: ReviewCitation[];
+  label?: string;
+  className?: string;
+}
+
+const describeWhen = (citation: ReviewCitation) =>
+  citation.relativeTime || (citation.time ? new Date(citation.time * 1000).toLocaleDateString() : '');
+
+// Collapsed by default; clicks inside do not bubble up to the card around it
+export default function ReviewEvidence({ citations, label = 'review quote', className = 'text-gray-700' }: ReviewEvidenceProps) {
+  if (citations.length === 0) return null;
+
+  return (
+    <details className={`mt-1 text-xs ${className}`} onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer select-none font-semibold">
+        {citations.length} {label}{citations.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-1 space-y-1">
+        {citations.map(citation => (
+          <li key={citation.quote} className="flex items-start">
+            <Quote className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 opacity-60" />
+            <span>
+              <span className="italic">&ldquo;{citation.quote}&rdquo;</span>
+              <span className="block opacity-75">
+                {citation.author || 'Anonymous'}
+                {citation.rating !== undefined && (
+                  <> · <Star className="inline w-3 h-3 -mt-0.5 fill-current" /> {citation.rating}</>
+                )}
+                {describeWhen(citation) && ` · ${describeWhen(citation)}`}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,232 @@
+import { dietaryLabel, DietaryRestriction } from '@/lib/dietary';
+import { getLLMProvider } from '@/lib/llm';
+import { PlaceReview } from '@/lib/places';
+import { citeReviews, ReviewCitation } from './citations';
+import { DishProfile } from './dish-profile';
+import { FlavorTwin } from './flavor-twins';
+import { MenuItemMatch } from './menu-match';
+
+export interface AvailabilityCandidate {
+  name: string;
+  menuInsights: { dishes: string[] };
+  tasteProfile: { flavors?: string[]; style?: string };
+  types: string[];
+  closestMenuItems?: MenuItemMatch[];
+  flavorTwin?: FlavorTwin;
+  // Without reviews a verdict cannot cite anything
+  reviews?: PlaceReview[];
+}
+
+// `unscored` means the model never produced a valid verdict for the restaurant,
+// even after a retry; the remaining fields are neutral placeholders then.
+export interface DishAvailability {
+  status: 'scored' | 'unscored';
+  hasExactDish: boolean;
+  hasSimilarDish: boolean;
+  confidence: number;
+  reasoning: string;
+  // Review snippets backing the verdict, each checked against the review text
+  citations: ReviewCitation[];
+}
+
+// Shape the model is asked to return, one object per restaurant.
+interface AvailabilityEntry {
+  restaurant: number;
+  hasExact: boolean;
+  hasSimilar: boolean;
+  confidence: number;
+  reason: string;
+  evidence?: unknown;
+}
+
+export const UNSCORED: DishAvailability = {
+  status: 'unscored',
+  hasExactDish: false,
+  hasSimilarDish: false,
+  confidence: 0,
+  reasoning: 'AI could not score this restaurant',
+  citations: [],
+};
+
+const REVIEWS_PER_RESTAURANT = 3;
+const MAX_REVIEW_PROMPT_LENGTH = 240;
+
+export async function intelligentDishAnalysis(
+  restaurants: AvailabilityCandidate[],
+  originalDish: string,
+  dishProfile?: DishProfile | null,
+  dietary: DietaryRestriction[] = []
+): Promise<DishAvailability[]> {
+  if (restaurants.length === 0) return [];
+
+  // A failure here is a provider problem (missing key, network), so let it surface
+  const verdicts = await requestAvailability(restaurants, originalDish, dishProfile, dietary);
+
+  // Ask again, one restaurant at a time, for anything missing or malformed
+  const missing = restaurants
+    .map((_, index) => index)
+    .filter(index => !verdicts.has(index));
+
+  if (missing.length > 0) {
+    console.warn(`Availability analysis missing ${missing.length} restaurant(s), retrying individually`);
+    await Promise.all(missing.map(async (index) => {
+      try {
+        const retry = await requestAvailability([restaurants[index]], originalDish, dishProfile, dietary);
+        const verdict = retry.get(0);
+        if (verdict) verdicts.set(index, verdict);
+      } catch (error) {
+        console.error(`Availability retry failed for ${restaurants[index].name}:`, error);
+      }
+    }));
+  }
+
+  return restaurants.map((_, index) => verdicts.get(index) || UNSCORED);
+}
+
+async function requestAvailability(
+  restaurants: AvailabilityCandidate[],
+  originalDish: string,
+  dishProfile: DishProfile | null | undefined,
+  dietary: DietaryRestriction[]
+): Promise<Map<number, DishAvailability>> {
+  const responseText = await getLLMProvider().generate({
+    task: 'dish-availability',
+    prompt: buildAvailabilityPrompt(restaurants, originalDish, dishProfile, dietary),
+    maxTokens: 150 + restaurants.length * 140,
+    temperature: 0.1,
+  });
+
+  return parseAvailabilityResponse(responseText, restaurants);
+}
+
+function buildAvailabilityPrompt(
+  restaurants: AvailabilityCandidate[],
+  originalDish: string,
+  dishProfile: DishProfile | null | undefined,
+  dietary: DietaryRestriction[]
+) {
+  // Create comprehensive restaurant profiles for analysis
+  const restaurantProfiles = restaurants.map((restaurant, index) => {
+    const menuItems = restaurant.menuInsights.dishes.slice(0, 5).join(', ');
+    const flavors = restaurant.tasteProfile.flavors?.join(', ') || 'unknown';
+    const style = restaurant.tasteProfile.style || 'unknown style';
+    const closest = restaurant.closestMenuItems?.[0];
+    const twin = restaurant.flavorTwin;
+    const reviews = (restaurant.reviews || [])
+      .slice(0, REVIEWS_PER_RESTAURANT)
+      .map(review => `\n     "${review.text.slice(0, MAX_REVIEW_PROMPT_LENGTH)}"`)
+      .join('');
+
+    return `${index + 1}. ${restaurant.name}
+   - Menu items: ${menuItems || 'Not specified in reviews'}
+   - Taste profile: ${flavors} flavors, ${style}
+   - Restaurant type: ${restaurant.types.join(', ')}${closest ? `
+   - Closest menu item to "${originalDish}": ${closest.name} (embedding similarity ${closest.score})` : ''}${twin ? `
+   - Found as a likely source of ${twin.dish} (${twin.cuisine}), a flavor twin of "${originalDish}"` : ''}${reviews ? `
+   - Reviews:${reviews}` : ''}`;
+  }).join('\n\n');
+
+  const dishContext = dishProfile ? `
+
+SOURCE DISH ANALYSIS:
+The user had "${originalDish}" at a restaurant and wants to find similar versions elsewhere.
+${dishProfile.analysis}
+
+Key characteristics to match:
+- Cuisine: ${dishProfile.cuisineType}
+- Flavors: ${dishProfile.flavorProfile.join(', ')}
+- Cooking style: ${dishProfile.cookingStyle}
+` : '';
+
+  const dietaryContext = dietary.length > 0 ? `
+
+DIETARY NEEDS:
+The diner is ${dietary.map(dietaryLabel).join(', ')}. Only count a dish as similar if a version meeting these needs is likely available.
+` : '';
+
+  return `You are analyzing restaurants to find where someone could get "${originalDish}" or very similar dishes.${dishContext}${dietaryContext}
+
+RESTAURANT PROFILES:
+${restaurantProfiles}
+
+Your task: For each restaurant, analyze if they likely serve "${originalDish}" or dishes with very similar taste profiles.
+
+Consider:
+- Specific menu items mentioned in reviews
+- Flavor profiles (spicy, savory, sweet, etc.)
+- Cooking styles and cuisine types
+- Texture and preparation methods
+- Cultural/regional cuisine matches${dishProfile ? '\n- How well they match the reference dish characteristics' : ''}
+
+Return ONLY a JSON array with one object per restaurant (1-${restaurants.length}), in this format:
+[
+  {"restaurant": 1, "hasExact": false, "hasSimilar": true, "confidence": 75, "reason": "Serves spicy Asian dishes with similar flavor profile", "evidence": ["the chili chicken was fiery"]},
+  {"restaurant": 2, "hasExact": true, "hasSimilar": true, "confidence": 90, "reason": "Menu reviews mention this exact dish", "evidence": []}
+]
+
+Rules:
+- restaurant: the number of the restaurant profile above
+- hasExact: true only if reviews mention the exact dish name or very close variations
+- hasSimilar: true if flavor/style profiles suggest similar dishes are available, including a listed flavor twin
+- confidence: integer 0-100 based on strength of menu/taste evidence
+- reason: specific evidence from menu items or taste profile (15 words max)
+- evidence: up to 2 short phrases copied word for word from that restaurant's reviews that support the verdict; [] if no review does
+
+You MUST include ALL ${restaurants.length} restaurants. Do not skip any.
+
+JSON:`;
+}
+
+function isAvailabilityEntry(value: unknown): value is AvailabilityEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    Number.isInteger(entry.restaurant) &&
+    typeof entry.hasExact === 'boolean' &&
+    typeof entry.hasSimilar === 'boolean' &&
+    typeof entry.confidence === 'number' &&
+    Number.isFinite(entry.confidence) &&
+    typeof entry.reason === 'string' &&
+    entry.reason.trim().length > 0
+  );
+}
+
+// Keeps every valid entry, keyed by zero-based restaurant index, and drops the
+// rest instead of failing the whole batch.
+function parseAvailabilityResponse(responseText: string, restaurants: AvailabilityCandidate[]): Map<number, DishAvailability> {
+  const verdicts = new Map<number, DishAvailability>();
+  const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    console.warn('Availability response contained no JSON array');
+    return verdicts;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.warn('Availability response was not valid JSON:', error);
+    return verdicts;
+  }
+  if (!Array.isArray(entries)) return verdicts;
+
+  for (const entry of entries) {
+    if (!isAvailabilityEntry(entry)) {
+      console.warn('Skipping malformed availability entry:', entry);
+      continue;
+    }
+    const index = entry.restaurant - 1;
+    if (index < 0 || index >= restaurants.length || verdicts.has(index)) continue;
+
+    verdicts.set(index, {
+      status: 'scored',
+      hasExactDish: entry.hasExact,
+      hasSimilarDish: entry.hasSimilar,
+      confidence: Math.round(Math.min(Math.max(entry.confidence, 0), 100)),
+      reasoning: entry.reason.trim(),
+      citations: citeReviews(entry.evidence, restaurants[index].reviews || []),
+    });
+  }
+
+  return verdicts;
+}
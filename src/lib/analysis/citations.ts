@@ -0,0 +1,60 @@
+import { PlaceReview } from '@/lib/places';
+
+// A snippet of a Places review backing a verdict or an extracted menu item,
+// with the review's metadata so the user can judge it for themselves.
+export interface ReviewCitation {
+  quote: string;
+  author?: string;
+  rating?: number;
+  // Unix seconds
+  time?: number;
+  relativeTime?: string;
+}
+
+const MIN_QUOTE_WORDS = 3;
+const MAX_QUOTE_LENGTH = 300;
+
+// Case, punctuation and curly quotes vary between the model and the review,
+// so quotes are compared as plain lowercase words.
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9']+/g, ' ')
+    .trim();
+}
+
+// Turns the quotes a model cited into citations, keeping only those that
+// actually appear in one of the reviews. Anything else is dropped with a warning.
+export function citeReviews(quotes: unknown, reviews: PlaceReview[], max = 2): ReviewCitation[] {
+  if (!Array.isArray(quotes)) return [];
+
+  const normalizedReviews = reviews.map(review => ({ review, text: ` ${normalize(review.text)} ` }));
+  const citations: ReviewCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const quote of quotes) {
+    if (typeof quote !== 'string') continue;
+    const trimmed = quote.trim().replace(/^["']|["']$/g, '').slice(0, MAX_QUOTE_LENGTH);
+    const normalized = normalize(trimmed);
+    if (normalized.split(' ').length < MIN_QUOTE_WORDS || seen.has(normalized)) continue;
+
+    const source = normalizedReviews.find(({ text }) => text.includes(` ${normalized} `));
+    if (!source) {
+      console.warn(`Rejecting citation not found in reviews: "${trimmed}"`);
+      continue;
+    }
+
+    seen.add(normalized);
+    citations.push({
+      quote: trimmed,
+      author: source.review.author_name,
+      rating: source.review.rating,
+      time: source.review.time,
+      relativeTime: source.review.relative_time_description,
+    });
+    if (citations.length >= max) break;
+  }
+
+  return citations;
+}
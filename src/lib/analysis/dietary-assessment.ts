@@ -0,0 +1,298 @@
+import {
+  DietaryAssessment,
+  DietaryEvidence,
+  DishDietaryAssessment,
+  dietaryLabel,
+  DietaryRestriction,
+  DietaryStatus,
+} from '@/lib/dietary';
+import { getLLMProvider } from '@/lib/llm';
+import { PlaceReview } from '@/lib/places';
+
+// Words that show a place caters to a restriction, and ingredients that break it.
+// Review sentences mentioning either are the evidence the model judges from.
+const DIETARY_TERMS: Record<DietaryRestriction, { supports: string[]; conflicts: string[] }> = {
+  vegetarian: {
+    supports: ['vegetarian', 'veggie', 'meatless', 'plant-based', 'tofu'],
+    conflicts: ['chicken', 'beef', 'pork', 'bacon', 'lamb', 'fish', 'shrimp', 'anchovy', 'fish sauce', 'lard', 'gelatin'],
+  },
+  vegan: {
+    supports: ['vegan', 'plant-based', 'dairy-free'],
+    conflicts: ['chicken', 'beef', 'pork', 'bacon', 'fish', 'shrimp', 'fish sauce', 'egg', 'milk', 'cheese', 'butter', 'cream', 'honey', 'yogurt', 'ghee'],
+  },
+  halal: {
+    supports: ['halal'],
+    conflicts: ['pork', 'bacon', 'ham', 'lard', 'wine', 'beer', 'alcohol'],
+  },
+  kosher: {
+    supports: ['kosher'],
+    conflicts: ['pork', 'bacon', 'ham', 'shellfish', 'shrimp', 'lobster', 'crab', 'clam', 'oyster'],
+  },
+  'gluten-free': {
+    supports: ['gluten-free', 'gluten free', 'celiac', 'coeliac'],
+    conflicts: ['wheat', 'flour', 'bread', 'breaded', 'batter', 'noodle', 'pasta', 'soy sauce', 'barley', 'seitan', 'bun'],
+  },
+  'nut-allergy': {
+    supports: ['nut-free', 'nut free', 'allergy', 'allergies'],
+    conflicts: ['peanut', 'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'nut', 'satay'],
+  },
+  'shellfish-allergy': {
+    supports: ['allergy', 'allergies'],
+    conflicts: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop', 'crawfish'],
+  },
+  'dairy-allergy': {
+    supports: ['dairy-free', 'dairy free', 'lactose'],
+    conflicts: ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'paneer', 'queso'],
+  },
+};
+
+const DIETARY_STATUSES: DietaryStatus[] = ['compatible', 'caution', 'incompatible', 'unknown'];
+const MAX_EVIDENCE = 4;
+const MAX_QUOTE_LENGTH = 200;
+
+export interface DietaryCandidate {
+  name: string;
+  reviews: PlaceReview[];
+  menuInsights: { dishes: string[] };
+}
+
+// Shape the model is asked to return, one object per restaurant.
+interface DietaryEntry {
+  restaurant: number;
+  status: DietaryStatus;
+  note: string;
+  evidence: number[];
+}
+
+function termPattern(terms: string[]) {
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`\\b(${escaped.join('|')})(s|es)?\\b`, 'i');
+}
+
+// Review sentences that mention the restrictions (or `extraTerms`, e.g. a dish name)
+export function findDietaryEvidence(
+  reviews: PlaceReview[],
+  restrictions: DietaryRestriction[],
+  extraTerms: string[] = []
+): DietaryEvidence[] {
+  const terms = restrictions.flatMap(restriction => [
+    ...DIETARY_TERMS[restriction].supports,
+    ...DIETARY_TERMS[restriction].conflicts,
+  ]);
+  if (terms.length === 0) return [];
+  const relevant = termPattern([...terms, ...extraTerms.filter(term => term.trim())]);
+  const evidence: DietaryEvidence[] = [];
+
+  for (const review of reviews) {
+    const sentences = review.text.split(/(?<=[.!?])\s+/);
+    for (const sentence of sentences) {
+      if (!relevant.test(sentence)) continue;
+      const quote = sentence.trim();
+      evidence.push({
+        quote: quote.length > MAX_QUOTE_LENGTH ? `${quote.substring(0, MAX_QUOTE_LENGTH)}...` : quote,
+        author: review.author_name,
+      });
+      if (evidence.length >= MAX_EVIDENCE) return evidence;
+    }
+  }
+
+  return evidence;
+}
+
+// Human-readable warnings for ingredients in `text` that break a restriction
+export function findAllergenWarnings(text: string, restrictions: DietaryRestriction[]): string[] {
+  const warnings: string[] = [];
+  for (const restriction of restrictions) {
+    const found = DIETARY_TERMS[restriction].conflicts.filter(term => termPattern([term]).test(text));
+    if (found.length > 0) {
+      warnings.push(`${dietaryLabel(restriction)}: may contain ${found.join(', ')}`);
+    }
+  }
+  return warnings;
+}
+
+function unassessed(evidence: DietaryEvidence[]): DietaryAssessment {
+  return {
+    status: 'unknown',
+    notes: evidence.length > 0 ? 'AI could not assess these reviews' : 'Reviews say nothing about these dietary needs',
+    evidence,
+  };
+}
+
+// Stand-in verdicts for when the assessment could not run: every place is
+// unknown, with the review sentences we found still attached
+export function unassessedDietary(
+  restaurants: DietaryCandidate[],
+  restrictions: DietaryRestriction[],
+  dishes: string[]
+): DietaryAssessment[] {
+  if (restrictions.length === 0) return [];
+  return restaurants.map(restaurant => unassessed(findDietaryEvidence(restaurant.reviews, restrictions, dishes)));
+}
+
+// One verdict per restaurant. Evidence is limited to review sentences we found
+// ourselves, so the model can cite them but never invent a quote.
+export async function assessDietaryCompatibility(
+  restaurants: DietaryCandidate[],
+  restrictions: DietaryRestriction[],
+  dishes: string[]
+): Promise<DietaryAssessment[]> {
+  if (restaurants.length === 0 || restrictions.length === 0) return [];
+  // Each dish is its own evidence term: reviews name one dish at a time
+  const evidence = restaurants.map(restaurant => findDietaryEvidence(restaurant.reviews, restrictions, dishes));
+
+  // Provider errors reach the caller, so the stage runner can retry them and report the stage
+  const responseText = await getLLMProvider().generate({
+    task: 'dietary-assessment',
+    prompt: buildDietaryPrompt(restaurants, evidence, restrictions, dishes.join(' and ')),
+    maxTokens: 150 + restaurants.length * 80,
+    temperature: 0.1,
+  });
+  const entries = parseDietaryResponse(responseText, restaurants.length);
+
+  return restaurants.map((_, index) => {
+    const entry = entries.get(index);
+    if (!entry) return unassessed(evidence[index]);
+
+    return {
+      status: entry.status,
+      notes: entry.note.trim(),
+      evidence: entry.evidence
+        .filter(number => number >= 1 && number <= evidence[index].length)
+        .map(number => evidence[index][number - 1]),
+    };
+  });
+}
+
+function buildDietaryPrompt(
+  restaurants: DietaryCandidate[],
+  evidence: DietaryEvidence[][],
+  restrictions: DietaryRestriction[],
+  originalDish: string
+) {
+  const restaurantProfiles = restaurants.map((restaurant, index) => {
+    const menuItems = restaurant.menuInsights.dishes.slice(0, 5).join(', ');
+    const quotes = evidence[index].length > 0
+      ? evidence[index].map((item, quoteIndex) => `     [${quoteIndex + 1}] "${item.quote}"`).join('\n')
+      : '     (no review mentions)';
+
+    return `${index + 1}. ${restaurant.name}
+   - Menu items: ${menuItems || 'Not specified in reviews'}
+   - Review quotes:
+${quotes}`;
+  }).join('\n\n');
+
+  return `A diner looking for "${originalDish}" has these dietary needs: ${restrictions.map(dietaryLabel).join(', ')}.
+
+RESTAURANT PROFILES:
+${restaurantProfiles}
+
+For each restaurant, judge whether the diner could safely order "${originalDish}" or a close alternative there.
+
+Return ONLY a JSON array with one object per restaurant (1-${restaurants.length}), in this format:
+[
+  {"restaurant": 1, "status": "compatible", "note": "Reviews praise the vegetarian pad thai", "evidence": [1]},
+  {"restaurant": 2, "status": "incompatible", "note": "Every dish mentioned is built on shrimp", "evidence": [1, 2]}
+]
+
+Rules:
+- status: "compatible", "caution" (possible, but ask staff), "incompatible" or "unknown" (not enough evidence)
+- note: the reason, citing menu items or quotes (15 words max)
+- evidence: numbers of the review quotes that support the verdict, or [] if none
+
+You MUST include ALL ${restaurants.length} restaurants.
+
+JSON:`;
+}
+
+function isDietaryEntry(value: unknown): value is DietaryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    Number.isInteger(entry.restaurant) &&
+    DIETARY_STATUSES.includes(entry.status as DietaryStatus) &&
+    typeof entry.note === 'string' &&
+    Array.isArray(entry.evidence) &&
+    entry.evidence.every(number => Number.isInteger(number))
+  );
+}
+
+function parseDietaryResponse(responseText: string, count: number): Map<number, DietaryEntry> {
+  const entries = new Map<number, DietaryEntry>();
+  const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    console.warn('Dietary response contained no JSON array');
+    return entries;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.warn('Dietary response was not valid JSON:', error);
+    return entries;
+  }
+  if (!Array.isArray(parsed)) return entries;
+
+  for (const entry of parsed) {
+    if (!isDietaryEntry(entry)) {
+      console.warn('Skipping malformed dietary entry:', entry);
+      continue;
+    }
+    const index = entry.restaurant - 1;
+    if (index < 0 || index >= count || entries.has(index)) continue;
+    entries.set(index, entry);
+  }
+
+  return entries;
+}
+
+const DIETARY_STATUS_LIST = DIETARY_STATUSES.join('|');
+
+// Extra JSON field requested from a single-dish analysis; read back by parseDishDietaryVerdict
+export function dishDietaryInstructions(restrictions: DietaryRestriction[]) {
+  if (restrictions.length === 0) return '';
+  return `
+
+The diner is ${restrictions.map(dietaryLabel).join(', ')}. Add this field to the JSON object:
+"dietary": {"status": "${DIETARY_STATUS_LIST}", "reason": "conflicting ingredients or allergen risks (15 words max)"}`;
+}
+
+export interface DishDietaryVerdict {
+  status: DietaryStatus;
+  reason: string;
+}
+
+export function parseDishDietaryVerdict(value: unknown): DishDietaryVerdict | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const verdict = value as Record<string, unknown>;
+  if (!DIETARY_STATUSES.includes(verdict.status as DietaryStatus)) return null;
+  return {
+    status: verdict.status as DietaryStatus,
+    reason: typeof verdict.reason === 'string' ? verdict.reason.trim() : '',
+  };
+}
+
+// Backs the model's verdict with review quotes and ingredient warnings. A verdict
+// of "compatible" is downgraded to "caution" when the analysis itself names a
+// conflicting ingredient.
+export function assessDishDietary(
+  verdict: DishDietaryVerdict | null,
+  analysisText: string,
+  dishName: string,
+  restrictions: DietaryRestriction[],
+  reviews: PlaceReview[]
+): DishDietaryAssessment {
+  const allergenWarnings = findAllergenWarnings(`${dishName} ${analysisText}`, restrictions);
+
+  let status: DietaryStatus = verdict?.status || 'unknown';
+  if (status === 'unknown' && allergenWarnings.length > 0) status = 'caution';
+  if (status === 'compatible' && allergenWarnings.length > 0) status = 'caution';
+
+  return {
+    status,
+    notes: verdict?.reason || (allergenWarnings.length > 0 ? 'Check the ingredients with staff' : 'No dietary verdict from AI'),
+    evidence: findDietaryEvidence(reviews, restrictions, [dishName]),
+    allergenWarnings,
+  };
+}
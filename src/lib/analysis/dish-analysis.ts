@@ -0,0 +1,163 @@
+import { DietaryRestriction } from '@/lib/dietary';
+import { getLLMProvider } from '@/lib/llm';
+import { DishDietaryVerdict, dishDietaryInstructions, parseDishDietaryVerdict } from './dietary-assessment';
+import { DishProfile } from './dish-profile';
+
+export interface FlavorIntensity {
+  flavor: string;
+  // 0-10
+  intensity: number;
+}
+
+export interface DishAnalysis {
+  summary: string;
+  cuisineType: string;
+  ingredients: string[];
+  flavors: FlavorIntensity[];
+  textures: string[];
+  cookingMethod: string;
+  style: string;
+  drinkPairing: string;
+  // 0 (none) to 5 (extremely hot)
+  spiceLevel: number;
+}
+
+export interface DishAnalysisResult {
+  analysis: DishAnalysis;
+  // The same analysis in the shape analyzeDishAtRestaurant returns, for field-by-field comparison
+  dishProfile: DishProfile;
+  dietaryVerdict: DishDietaryVerdict | null;
+}
+
+interface AnalyzeDishInput {
+  dishName: string;
+  restaurantName: string;
+  restaurantAddress?: string;
+  dietary?: DietaryRestriction[];
+}
+
+const MAX_FLAVORS = 6;
+
+function buildAnalysisPrompt({ dishName, restaurantName, restaurantAddress, dietary = [] }: AnalyzeDishInput) {
+  return `You are a food critic. Analyze the dish "${dishName}" from the restaurant "${restaurantName}"${restaurantAddress ? ` located at "${restaurantAddress}"` : ''}.
+
+Return ONLY a JSON object in this format:
+{
+  "summary": "two or three engaging sentences about the dish",
+  "cuisineType": "e.g. American, Thai, Korean",
+  "ingredients": ["key ingredients and components"],
+  "flavors": [{"flavor": "spicy", "intensity": 8}, {"flavor": "savory", "intensity": 6}],
+  "textures": ["crispy", "tender"],
+  "cookingMethod": "e.g. fried, grilled, stewed",
+  "style": "authenticity or style, e.g. traditional, modern fusion",
+  "drinkPairing": "one drink suggestion",
+  "spiceLevel": 3
+}
+
+Rules:
+- flavors: up to ${MAX_FLAVORS} primary flavors (sweet, spicy, savory, umami, sour, bitter, tangy, smoky...), intensity is an integer 0-10
+- spiceLevel: integer 0 (none) to 5 (extremely hot)${dishDietaryInstructions(dietary)}
+
+JSON:`;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : [];
+}
+
+function text(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function clampInteger(value: number, min: number, max: number) {
+  return Math.round(Math.min(Math.max(value, min), max));
+}
+
+function isFlavorIntensity(value: unknown): value is FlavorIntensity {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.flavor === 'string' &&
+    entry.flavor.trim().length > 0 &&
+    typeof entry.intensity === 'number' &&
+    Number.isFinite(entry.intensity)
+  );
+}
+
+// Null when the response is unusable: no JSON, no summary, or no flavors
+function parseAnalysisResponse(responseText: string): { analysis: DishAnalysis; dietary: unknown } | null {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.warn('Dish analysis response contained no JSON object');
+    return null;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.warn('Dish analysis response was not valid JSON:', error);
+    return null;
+  }
+
+  const flavors = (Array.isArray(parsed.flavors) ? parsed.flavors : [])
+    .filter(isFlavorIntensity)
+    .map(entry => ({ flavor: entry.flavor.trim().toLowerCase(), intensity: clampInteger(entry.intensity, 0, 10) }))
+    .slice(0, MAX_FLAVORS);
+  const summary = text(parsed.summary);
+  if (!summary || flavors.length === 0) return null;
+
+  return {
+    analysis: {
+      summary,
+      cuisineType: text(parsed.cuisineType),
+      ingredients: stringList(parsed.ingredients),
+      flavors,
+      textures: stringList(parsed.textures).map(texture => texture.toLowerCase()),
+      cookingMethod: text(parsed.cookingMethod).toLowerCase(),
+      style: text(parsed.style),
+      drinkPairing: text(parsed.drinkPairing),
+      spiceLevel: typeof parsed.spiceLevel === 'number' && Number.isFinite(parsed.spiceLevel)
+        ? clampInteger(parsed.spiceLevel, 0, 5)
+        : 0,
+    },
+    dietary: parsed.dietary,
+  };
+}
+
+export function toDishProfile(analysis: DishAnalysis): DishProfile {
+  return {
+    analysis: [analysis.summary, `Key ingredients: ${analysis.ingredients.join(', ')}`].join('\n'),
+    cuisineType: analysis.cuisineType || 'American',
+    flavorProfile: [...analysis.flavors.map(entry => entry.flavor), ...analysis.textures],
+    cookingStyle: analysis.cookingMethod || 'prepared',
+  };
+}
+
+// Asks once more if the first answer is unusable, then gives up
+export async function analyzeDish(input: AnalyzeDishInput): Promise<DishAnalysisResult> {
+  const prompt = buildAnalysisPrompt(input);
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const responseText = await getLLMProvider().generate({
+      task: 'dish-analysis',
+      prompt,
+      maxTokens: 600,
+      temperature: 0.3,
+    });
+
+    const parsed = parseAnalysisResponse(responseText);
+    if (parsed) {
+      return {
+        analysis: parsed.analysis,
+        dishProfile: toDishProfile(parsed.analysis),
+        dietaryVerdict: parseDishDietaryVerdict(parsed.dietary),
+      };
+    }
+    console.warn(`Dish analysis attempt ${attempt} was unusable`);
+  }
+
+  throw new Error('AI returned an unreadable dish analysis');
+}
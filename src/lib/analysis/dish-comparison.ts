@@ -0,0 +1,162 @@
+import { cached } from '@/lib/cache';
+import { getLLMProvider } from '@/lib/llm';
+import { analyzeDish, DishAnalysis } from './dish-analysis';
+import { compareFlavorVectors, FLAVOR_DIMENSIONS, FlavorVector, flavorVectorFromText } from './flavor-vector';
+
+export interface DishReference {
+  dishName: string;
+  restaurantName: string;
+  restaurantAddress?: string;
+}
+
+export interface AnalyzedDish extends DishReference {
+  analysis: DishAnalysis;
+}
+
+export interface SetDiff<T> {
+  shared: T[];
+  onlySource: T[];
+  onlyCandidate: T[];
+}
+
+export interface DishComparison {
+  source: AnalyzedDish;
+  candidate: AnalyzedDish;
+  // 0-100
+  similarity: number;
+  flavors: SetDiff<{ flavor: string; sourceIntensity: number; candidateIntensity: number }> & {
+    sharedDimensions: string[];
+  };
+  textures: SetDiff<string>;
+  cookingStyle: { source: string; candidate: string; same: boolean };
+  heat: { source: number; candidate: number; difference: number };
+  whatYoullNotice: string;
+}
+
+const ANALYSIS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SPICE_LEVEL = 5;
+
+// Analyses are cached so the source dish is only analyzed once per comparison session
+function getDishAnalysis(dish: DishReference): Promise<DishAnalysis> {
+  const key = `${getLLMProvider().name}:${dish.restaurantName}:${dish.restaurantAddress || ''}:${dish.dishName}`.toLowerCase();
+  return cached(
+    { namespace: 'dish-analysis', key, ttlMs: ANALYSIS_TTL_MS },
+    async () => (await analyzeDish(dish)).analysis
+  );
+}
+
+// Flavors are placed on the shared dimensions at their stated intensity, so two
+// "spicy" dishes of very different heat do not look identical.
+function analysisVector(analysis: DishAnalysis): FlavorVector {
+  const vector = flavorVectorFromText(analysis.textures.join(' '), analysis.cookingMethod);
+  for (const { flavor, intensity } of analysis.flavors) {
+    const flavorVector = flavorVectorFromText(flavor);
+    for (const dimension of FLAVOR_DIMENSIONS) {
+      if (flavorVector[dimension] > 0) vector[dimension] = Math.max(vector[dimension], intensity / 10);
+    }
+  }
+  vector.heat = Math.max(vector.heat, analysis.spiceLevel / MAX_SPICE_LEVEL);
+  return vector;
+}
+
+function diffSets(source: string[], candidate: string[]): SetDiff<string> {
+  const sourceSet = new Set(source.map(item => item.toLowerCase()));
+  const candidateSet = new Set(candidate.map(item => item.toLowerCase()));
+  return {
+    shared: [...sourceSet].filter(item => candidateSet.has(item)),
+    onlySource: [...sourceSet].filter(item => !candidateSet.has(item)),
+    onlyCandidate: [...candidateSet].filter(item => !sourceSet.has(item)),
+  };
+}
+
+function diffFlavors(source: DishAnalysis, candidate: DishAnalysis): DishComparison['flavors'] {
+  const names = diffSets(source.flavors.map(entry => entry.flavor), candidate.flavors.map(entry => entry.flavor));
+  const intensity = (analysis: DishAnalysis, flavor: string) =>
+    analysis.flavors.find(entry => entry.flavor.toLowerCase() === flavor)?.intensity ?? 0;
+  const withIntensities = (flavor: string) => ({
+    flavor,
+    sourceIntensity: intensity(source, flavor),
+    candidateIntensity: intensity(candidate, flavor),
+  });
+
+  return {
+    shared: names.shared.map(withIntensities),
+    onlySource: names.onlySource.map(withIntensities),
+    onlyCandidate: names.onlyCandidate.map(withIntensities),
+    sharedDimensions: compareFlavorVectors(analysisVector(source), analysisVector(candidate))?.sharedDimensions || [],
+  };
+}
+
+// Flavor similarity dominates; texture overlap, cooking method and heat refine it
+function similarityScore(source: DishAnalysis, candidate: DishAnalysis, textures: SetDiff<string>) {
+  const flavorScore = compareFlavorVectors(analysisVector(source), analysisVector(candidate))?.score ?? 0;
+  const textureCount = textures.shared.length + textures.onlySource.length + textures.onlyCandidate.length;
+  const textureScore = textureCount > 0 ? (textures.shared.length / textureCount) * 100 : 0;
+  const methodScore = source.cookingMethod && source.cookingMethod === candidate.cookingMethod ? 100 : 0;
+  const heatScore = (1 - Math.abs(source.spiceLevel - candidate.spiceLevel) / MAX_SPICE_LEVEL) * 100;
+
+  return Math.round(0.6 * flavorScore + 0.2 * textureScore + 0.1 * methodScore + 0.1 * heatScore);
+}
+
+async function describeDifferences(comparison: Omit<DishComparison, 'whatYoullNotice'>): Promise<string> {
+  const { source, candidate, flavors, textures, cookingStyle, heat } = comparison;
+  const prompt = `Someone loved "${source.dishName}" at ${source.restaurantName} and is about to order "${candidate.dishName}" at ${candidate.restaurantName}.
+
+THE DISH THEY LOVED:
+${source.analysis.summary}
+
+THE DISH THEY ARE TRYING:
+${candidate.analysis.summary}
+
+DIFFERENCES:
+- Shared flavors: ${flavors.shared.map(entry => entry.flavor).join(', ') || 'none'}
+- Only in the original: ${flavors.onlySource.map(entry => entry.flavor).join(', ') || 'none'}
+- Only in the new dish: ${flavors.onlyCandidate.map(entry => entry.flavor).join(', ') || 'none'}
+- Textures only in the original: ${textures.onlySource.join(', ') || 'none'}; only in the new dish: ${textures.onlyCandidate.join(', ') || 'none'}
+- Cooking: ${cookingStyle.source || 'unknown'} vs ${cookingStyle.candidate || 'unknown'}
+- Heat: ${heat.source}/5 vs ${heat.candidate}/5
+
+In two or three friendly sentences, tell them what they'll notice when they take the first bite, compared with the dish they loved. Plain text only.`;
+
+  try {
+    return await getLLMProvider().generate({
+      task: 'dish-comparison',
+      prompt,
+      maxTokens: 200,
+      temperature: 0.5,
+    });
+  } catch (error) {
+    console.warn('Could not summarize dish comparison:', error);
+    return '';
+  }
+}
+
+export async function compareDishes(source: DishReference, candidates: DishReference[]): Promise<DishComparison[]> {
+  const [sourceAnalysis, ...candidateAnalyses] = await Promise.all(
+    [source, ...candidates].map(getDishAnalysis)
+  );
+
+  return Promise.all(candidates.map(async (candidate, index) => {
+    const candidateAnalysis = candidateAnalyses[index];
+    const textures = diffSets(sourceAnalysis.textures, candidateAnalysis.textures);
+    const comparison = {
+      source: { ...source, analysis: sourceAnalysis },
+      candidate: { ...candidate, analysis: candidateAnalysis },
+      similarity: similarityScore(sourceAnalysis, candidateAnalysis, textures),
+      flavors: diffFlavors(sourceAnalysis, candidateAnalysis),
+      textures,
+      cookingStyle: {
+        source: sourceAnalysis.cookingMethod,
+        candidate: candidateAnalysis.cookingMethod,
+        same: Boolean(sourceAnalysis.cookingMethod) && sourceAnalysis.cookingMethod === candidateAnalysis.cookingMethod,
+      },
+      heat: {
+        source: sourceAnalysis.spiceLevel,
+        candidate: candidateAnalysis.spiceLevel,
+        difference: candidateAnalysis.spiceLevel - sourceAnalysis.spiceLevel,
+      },
+    };
+
+    return { ...comparison, whatYoullNotice: await describeDifferences(comparison) };
+  }));
+}
@@ -0,0 +1,99 @@
+import { getVisionProvider, VisionImage } from '@/lib/vision';
+import { DishProfile, profileFromAnalysis } from './dish-profile';
+
+export interface DishCandidate {
+  name: string;
+  confidence: number;
+}
+
+export interface DishIdentification {
+  candidates: DishCandidate[];
+  // Same shape as analyzeDishAtRestaurant, so it can stand in for it
+  dishProfile: DishProfile;
+}
+
+const MAX_CANDIDATES = 5;
+
+const IDENTIFICATION_PROMPT = `You are a food expert. Identify the dish in this photo.
+
+Return ONLY a JSON object in this format:
+{
+  "candidates": [{ "name": "most likely dish name", "confidence": 0-100 }, ...],
+  "cuisineType": "e.g. American, Thai, Korean",
+  "flavorProfile": ["spicy", "sweet", "savory", "tangy", "sour", "bitter", "umami", "smoky", "crispy", "tender"],
+  "cookingStyle": "fried, grilled, baked, roasted, steamed, sautéed or braised",
+  "description": "two or three sentences on the visible ingredients, flavors, texture and preparation"
+}
+
+List up to ${MAX_CANDIDATES} candidate names, most likely first. Only include flavorProfile words that apply.
+
+JSON:`;
+
+export async function identifyDishFromImage(image: VisionImage): Promise<DishIdentification> {
+  const responseText = await getVisionProvider().describeImage({
+    task: 'dish-identification',
+    prompt: IDENTIFICATION_PROMPT,
+    image,
+    maxTokens: 500,
+    temperature: 0.2,
+  });
+
+  const identification = parseIdentificationResponse(responseText);
+  if (!identification) {
+    throw new Error('Could not identify a dish in this image');
+  }
+  return identification;
+}
+
+function isCandidate(value: unknown): value is DishCandidate {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.name === 'string' &&
+    candidate.name.trim().length > 0 &&
+    typeof candidate.confidence === 'number' &&
+    Number.isFinite(candidate.confidence)
+  );
+}
+
+function parseIdentificationResponse(responseText: string): DishIdentification | null {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.warn('Dish identification response contained no JSON object');
+    return null;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.warn('Dish identification response was not valid JSON:', error);
+    return null;
+  }
+
+  const candidates = (Array.isArray(parsed.candidates) ? parsed.candidates : [])
+    .filter(isCandidate)
+    .map(candidate => ({
+      name: candidate.name.trim(),
+      confidence: Math.round(Math.min(Math.max(candidate.confidence, 0), 100)),
+    }))
+    .slice(0, MAX_CANDIDATES);
+  if (candidates.length === 0) return null;
+
+  // Fields the model left out fall back to the same keyword extraction used for text analyses
+  const description = typeof parsed.description === 'string' ? parsed.description.trim() : '';
+  const fallback = profileFromAnalysis(description);
+  const flavorProfile = Array.isArray(parsed.flavorProfile)
+    ? parsed.flavorProfile.filter((flavor): flavor is string => typeof flavor === 'string').map(flavor => flavor.toLowerCase())
+    : [];
+
+  return {
+    candidates,
+    dishProfile: {
+      analysis: description,
+      cuisineType: typeof parsed.cuisineType === 'string' && parsed.cuisineType.trim() ? parsed.cuisineType.trim() : fallback.cuisineType,
+      flavorProfile: flavorProfile.length > 0 ? flavorProfile : fallback.flavorProfile,
+      cookingStyle: typeof parsed.cookingStyle === 'string' && parsed.cookingStyle.trim() ? parsed.cookingStyle.trim().toLowerCase() : fallback.cookingStyle,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { getLLMProvider } from '@/lib/llm';
+
+export interface DishProfile {
+  analysis: string;
+  cuisineType: string;
+  flavorProfile: string[];
+  cookingStyle: string;
+}
+
+export async function analyzeDishAtRestaurant(dishName: string, restaurantName: string): Promise<DishProfile> {
+  const prompt = `Analyze this specific dish at this restaurant:
+
+Dish: ${dishName}
+Restaurant: ${restaurantName}
+
+Provide a detailed profile of this dish including:
+- Flavor profile (spicy, sweet, savory, etc.)
+- Cooking style and preparation method
+- Key ingredients and seasonings
+- Texture and presentation
+- What makes this version unique
+- Cuisine type
+
+Format as a structured analysis.`;
+
+  try {
+    const analysis = await getLLMProvider().generate({
+      task: 'dish-profile',
+      prompt,
+      maxTokens: 300,
+      temperature: 0.3,
+    });
+    
+    return profileFromAnalysis(analysis);
+  } catch (error) {
+    console.error('Error analyzing source dish:', error);
+    throw error;
+  }
+}
+
+export function isDishProfile(value: unknown): value is DishProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.analysis === 'string' &&
+    typeof profile.cuisineType === 'string' &&
+    typeof profile.cookingStyle === 'string' &&
+    Array.isArray(profile.flavorProfile) &&
+    profile.flavorProfile.every(flavor => typeof flavor === 'string')
+  );
+}
+
+// Extract key information for comparison
+export function profileFromAnalysis(analysis: string): DishProfile {
+  return {
+    analysis,
+    cuisineType: extractCuisineType(analysis),
+    flavorProfile: extractFlavorProfile(analysis),
+    cookingStyle: extractCookingStyle(analysis)
+  };
+}
+
+function extractCuisineType(analysis: string): string {
+  // Simple extraction - look for cuisine keywords
+  const cuisines = ['American', 'Chinese', 'Italian', 'Mexican', 'Thai', 'Indian', 'Japanese', 'Korean', 'Mediterranean', 'French'];
+  for (const cuisine of cuisines) {
+    if (analysis.toLowerCase().includes(cuisine.toLowerCase())) {
+      return cuisine;
+    }
+  }
+  return 'American'; // default
+}
+
+function extractFlavorProfile(analysis: string): string[] {
+  const flavors = ['spicy', 'sweet', 'savory', 'tangy', 'sour', 'bitter', 'umami', 'smoky', 'crispy', 'tender'];
+  return flavors.filter(flavor => analysis.toLowerCase().includes(flavor));
+}
+
+function extractCookingStyle(analysis: string): string {
+  const styles = ['fried', 'grilled', 'baked', 'roasted', 'steamed', 'sautéed', 'braised'];
+  for (const style of styles) {
+    if (analysis.toLowerCase().includes(style)) {
+      return style;
+    }
+  }
+  return 'prepared'; // default
+}
@@ -0,0 +1,90 @@
+import { getLLMProvider } from '@/lib/llm';
+import { DishProfile } from './dish-profile';
+
+// A dish from another cuisine that hits the same notes as the source dish
+export interface FlavorTwin {
+  dish: string;
+  cuisine: string;
+  why: string;
+}
+
+const MAX_TWINS = 5;
+
+function buildTwinPrompt(originalDish: string, dishProfile: DishProfile | null) {
+  const profile = dishProfile ? `
+
+What makes it special:
+${dishProfile.analysis}
+- Cuisine: ${dishProfile.cuisineType}
+- Flavors: ${dishProfile.flavorProfile.join(', ')}
+- Cooking style: ${dishProfile.cookingStyle}` : '';
+
+  return `Someone loves "${originalDish}".${profile}
+
+Suggest up to ${MAX_TWINS} "flavor twins": dishes from OTHER cuisines with a very similar flavor profile, texture and cooking style. Use a different cuisine for each dish, and never the cuisine of "${originalDish}" itself. Use the name the dish is ordered by in restaurants.
+
+Return ONLY a JSON array in this format:
+[
+  {"dish": "La zi ji", "cuisine": "Sichuan", "why": "Crispy fried chicken tossed with dried chilies and numbing heat"}
+]
+
+JSON:`;
+}
+
+export function isFlavorTwin(value: unknown): value is FlavorTwin {
+  if (typeof value !== 'object' || value === null) return false;
+  const twin = value as Record<string, unknown>;
+  return (
+    typeof twin.dish === 'string' &&
+    twin.dish.trim().length > 0 &&
+    typeof twin.cuisine === 'string' &&
+    twin.cuisine.trim().length > 0 &&
+    typeof twin.why === 'string'
+  );
+}
+
+// Keeps one twin per cuisine and drops the source dish's own cuisine
+function parseTwinResponse(responseText: string, originalDish: string, sourceCuisine?: string): FlavorTwin[] {
+  const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    console.warn('Flavor twin response contained no JSON array');
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.warn('Flavor twin response was not valid JSON:', error);
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const seenCuisines = new Set(sourceCuisine ? [sourceCuisine.toLowerCase()] : []);
+  const twins: FlavorTwin[] = [];
+  for (const entry of entries) {
+    if (!isFlavorTwin(entry)) {
+      console.warn('Skipping malformed flavor twin:', entry);
+      continue;
+    }
+    const cuisine = entry.cuisine.trim();
+    if (seenCuisines.has(cuisine.toLowerCase())) continue;
+    if (entry.dish.trim().toLowerCase() === originalDish.trim().toLowerCase()) continue;
+    seenCuisines.add(cuisine.toLowerCase());
+    twins.push({ dish: entry.dish.trim(), cuisine, why: entry.why.trim() });
+    if (twins.length >= MAX_TWINS) break;
+  }
+
+  return twins;
+}
+
+export async function generateFlavorTwins(originalDish: string, dishProfile: DishProfile | null): Promise<FlavorTwin[]> {
+  const responseText = await getLLMProvider().generate({
+    task: 'flavor-twins',
+    prompt: buildTwinPrompt(originalDish, dishProfile),
+    maxTokens: 400,
+    temperature: 0.6,
+  });
+
+  return parseTwinResponse(responseText, originalDish, dishProfile?.cuisineType);
+}
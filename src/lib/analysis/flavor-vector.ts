@@ -0,0 +1,112 @@
+import type { DishProfile } from './dish-profile';
+
+// Fixed-dimension flavor/texture/technique vectors built from free text with a
+// keyword lexicon. Deliberately simple and deterministic: the same text always
+// yields the same vector, so a ranking can be traced back to the words behind it.
+
+export const FLAVOR_DIMENSIONS = [
+  // taste
+  'sweet', 'sour', 'salty', 'bitter', 'umami', 'heat', 'fat', 'smoky', 'herbal',
+  // texture
+  'crunch', 'tender', 'creamy', 'chewy',
+  // technique
+  'fried', 'grilled', 'roasted', 'braised', 'steamed', 'raw',
+] as const;
+
+export type FlavorDimension = typeof FLAVOR_DIMENSIONS[number];
+
+export type FlavorVector = Record<FlavorDimension, number>;
+
+export interface FlavorMatch {
+  score: number;
+  sharedDimensions: FlavorDimension[];
+  vector: FlavorVector;
+}
+
+const LEXICON: Record<FlavorDimension, string[]> = {
+  sweet: ['sweet', 'honey', 'sugar', 'caramel', 'syrup', 'glaze', 'candied', 'molasses', 'maple'],
+  sour: ['sour', 'tangy', 'tart', 'vinegar', 'pickled', 'pickles', 'citrus', 'lime', 'lemon', 'tamarind'],
+  salty: ['salty', 'salt', 'briny', 'soy', 'cured', 'brined', 'anchovy'],
+  bitter: ['bitter', 'charred', 'burnt', 'coffee', 'cocoa', 'greens'],
+  umami: ['umami', 'savory', 'savoury', 'brothy', 'mushroom', 'parmesan', 'miso', 'fish sauce', 'beefy', 'rich'],
+  heat: ['spicy', 'hot', 'chili', 'chilies', 'chile', 'cayenne', 'jalapeno', 'peppercorn', 'mala', 'fiery', 'gochujang', 'sriracha', 'habanero', 'numbing'],
+  fat: ['buttery', 'butter', 'oily', 'greasy', 'fatty', 'cheesy', 'cheese', 'lard', 'indulgent'],
+  smoky: ['smoky', 'smoked', 'smoke', 'wood-fired', 'chipotle', 'bbq', 'barbecue'],
+  herbal: ['herb', 'herbal', 'basil', 'cilantro', 'mint', 'dill', 'lemongrass', 'fresh', 'garlicky', 'garlic'],
+  crunch: ['crispy', 'crunchy', 'crisp', 'crust', 'crackling', 'flaky'],
+  tender: ['tender', 'juicy', 'succulent', 'moist', 'fall-off-the-bone', 'silky'],
+  creamy: ['creamy', 'cream', 'velvety', 'smooth', 'custard', 'mayo', 'aioli', 'crema'],
+  chewy: ['chewy', 'springy', 'bouncy', 'al dente', 'doughy'],
+  fried: ['fried', 'deep-fried', 'double-fried', 'fry', 'fries', 'tempura', 'battered'],
+  grilled: ['grilled', 'grill', 'charcoal', 'char-grilled', 'seared', 'broiled'],
+  roasted: ['roasted', 'roast', 'baked', 'oven'],
+  braised: ['braised', 'stewed', 'stew', 'slow-cooked', 'simmered', 'consomme', 'curry'],
+  steamed: ['steamed', 'poached', 'boiled', 'dumpling'],
+  raw: ['raw', 'ceviche', 'sashimi', 'tartare', 'crudo', 'salad'],
+};
+
+// Taste matters more than texture, and texture more than how it was cooked
+const DIMENSION_WEIGHTS: Record<FlavorDimension, number> = {
+  sweet: 1, sour: 1, salty: 1, bitter: 1, umami: 1, heat: 1, fat: 1, smoky: 1, herbal: 1,
+  crunch: 0.7, tender: 0.7, creamy: 0.7, chewy: 0.7,
+  fried: 0.5, grilled: 0.5, roasted: 0.5, braised: 0.5, steamed: 0.5, raw: 0.5,
+};
+
+const PATTERNS = Object.fromEntries(
+  FLAVOR_DIMENSIONS.map(dimension => [
+    dimension,
+    new RegExp(`\\b(${LEXICON[dimension].map(word => word.replace(/[-\s]/g, '[-\\s]?')).join('|')})\\b`, 'gi'),
+  ])
+) as Record<FlavorDimension, RegExp>;
+
+// A dimension saturates towards 1 as its keywords repeat: 1 hit = 0.5, 2 = 0.75, ...
+export function flavorVectorFromText(...texts: string[]): FlavorVector {
+  const text = texts.filter(Boolean).join(' ');
+  const vector = {} as FlavorVector;
+
+  for (const dimension of FLAVOR_DIMENSIONS) {
+    const hits = text.match(PATTERNS[dimension])?.length || 0;
+    vector[dimension] = Math.round((1 - Math.pow(0.5, hits)) * 1000) / 1000;
+  }
+
+  return vector;
+}
+
+// Numeric flavor vector of a source dish; falls back to the dish name alone
+export function dishFlavorVector(dish: string, dishProfile: DishProfile | null): FlavorVector {
+  return dishProfile
+    ? flavorVectorFromText(dish, dishProfile.analysis, dishProfile.flavorProfile.join(' '), dishProfile.cookingStyle)
+    : flavorVectorFromText(dish);
+}
+
+export function isEmptyFlavorVector(vector: FlavorVector) {
+  return FLAVOR_DIMENSIONS.every(dimension => vector[dimension] === 0);
+}
+
+export function weightedCosineSimilarity(a: FlavorVector, b: FlavorVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const dimension of FLAVOR_DIMENSIONS) {
+    const weight = DIMENSION_WEIGHTS[dimension];
+    dot += weight * a[dimension] * b[dimension];
+    normA += weight * a[dimension] * a[dimension];
+    normB += weight * b[dimension] * b[dimension];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Returns null when either side has no recognizable flavor words, since a zero
+// score would read as "nothing alike" rather than "not enough data".
+export function compareFlavorVectors(source: FlavorVector, candidate: FlavorVector): FlavorMatch | null {
+  if (isEmptyFlavorVector(source) || isEmptyFlavorVector(candidate)) return null;
+
+  return {
+    score: Math.round(weightedCosineSimilarity(source, candidate) * 100),
+    sharedDimensions: FLAVOR_DIMENSIONS.filter(dimension => source[dimension] > 0 && candidate[dimension] > 0),
+    vector: candidate,
+  };
+}
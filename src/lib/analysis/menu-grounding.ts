@@ -0,0 +1,74 @@
+import { PlaceReview } from '@/lib/places';
+import { withinEditDistance } from '@/lib/text';
+
+// How much of an extracted menu item the reviews actually support
+export interface MenuItemGrounding {
+  // 0-1, share of the dish name's words found in the reviews
+  name: number;
+  // 0-1, share of its descriptors ("crispy and flavorful") found; equals `name` when there are none
+  descriptors: number;
+  // 0-1, the two combined, name first
+  support: number;
+}
+
+// Below this share of the name found in the reviews, an item is treated as invented
+export const MIN_NAME_SUPPORT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'with', 'in', 'on', 'for', 'to', 'or', 'their', 'its', 'very', 'style', 'dish', 'plate',
+]);
+
+function tokens(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function singular(token: string) {
+  if (token.endsWith('ies') && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('es') && token.length > 4 && /(ch|sh|s|x|z|o)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss') && token.length > 3) return token.slice(0, -1);
+  return token;
+}
+
+// Plurals match, and longer words tolerate one typo ("parmesan" / "parmesean")
+function appears(token: string, reviewTokens: Set<string>) {
+  const base = singular(token);
+  if (reviewTokens.has(base)) return true;
+  if (base.length < 5) return false;
+  for (const reviewToken of reviewTokens) {
+    if (withinEditDistance(base, reviewToken, 1)) return true;
+  }
+  return false;
+}
+
+function coverage(words: string[], reviewTokens: Set<string>) {
+  if (words.length === 0) return null;
+  return words.filter(word => appears(word, reviewTokens)).length / words.length;
+}
+
+// Extracted items read "Dish name - descriptors"; the name has to be in the
+// reviews, the descriptors only refine how much we trust it.
+export function createMenuGrounding(reviews: PlaceReview[]) {
+  const reviewTokens = new Set(tokens(reviews.map(review => review.text).join(' ')).map(singular));
+
+  return (item: string): MenuItemGrounding => {
+    const [name, ...rest] = item.split(/\s+[-–—:]\s+/);
+    const nameScore = coverage(tokens(name), reviewTokens) ?? 0;
+    const descriptorScore = coverage(tokens(rest.join(' ')), reviewTokens) ?? nameScore;
+    return {
+      name: nameScore,
+      descriptors: descriptorScore,
+      support: Math.round((0.7 * nameScore + 0.3 * descriptorScore) * 100) / 100,
+    };
+  };
+}
+
+// Confidence comes from grounded evidence, not from how many items the model
+// listed: each fully supported item adds 20 points, a cited one 5 more, up to 90.
+export function groundedMenuConfidence(items: Array<{ support: number; citations: unknown[] }>) {
+  if (items.length === 0) return 10;
+  const evidence = items.reduce((sum, item) => sum + item.support * 20 + (item.citations.length > 0 ? 5 : 0), 0);
+  return Math.max(10, Math.min(90, Math.round(evidence)));
+}
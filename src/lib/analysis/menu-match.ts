@@ -0,0 +1,50 @@
+import { createVectorIndex, getEmbeddingProvider } from '@/lib/embeddings';
+
+export interface MenuItemMatch {
+  name: string;
+  item: string;
+  score: number;
+}
+
+interface IndexedMenuItem {
+  restaurantIndex: number;
+  item: string;
+}
+
+// "Fish tacos - fresh with tangy sauce" -> "Fish tacos"
+export function menuItemName(item: string) {
+  return item.split(/\s+[-–—:]\s+/)[0].trim();
+}
+
+// Embeds the requested dish and every extracted menu item, indexes the items
+// for this search only, and returns each restaurant's closest items (best first).
+export async function matchMenuItems(
+  originalDish: string,
+  restaurants: Array<{ menuInsights: { dishes: string[] } }>,
+  perRestaurant = 3
+): Promise<MenuItemMatch[][]> {
+  const items: IndexedMenuItem[] = restaurants.flatMap((restaurant, restaurantIndex) =>
+    restaurant.menuInsights.dishes.map(item => ({ restaurantIndex, item }))
+  );
+  if (items.length === 0) return restaurants.map(() => []);
+
+  const embeddings = getEmbeddingProvider();
+  const [[dishVector], itemVectors] = await Promise.all([
+    embeddings.embed([originalDish], 'query'),
+    // Embed the dish name only; descriptions like "large portion" add noise
+    embeddings.embed(items.map(entry => menuItemName(entry.item)), 'document'),
+  ]);
+
+  const index = createVectorIndex<IndexedMenuItem>();
+  items.forEach((entry, i) => index.add(itemVectors[i], entry));
+
+  return restaurants.map((_, restaurantIndex) =>
+    index
+      .query(dishVector, perRestaurant, entry => entry.restaurantIndex === restaurantIndex)
+      .map(({ payload, score }) => ({
+        name: menuItemName(payload.item),
+        item: payload.item,
+        score: Math.round(score * 100) / 100,
+      }))
+  );
+}
@@ -0,0 +1,182 @@
+import { getLLMProvider } from '@/lib/llm';
+import { PlaceReview } from '@/lib/places';
+import { citeReviews, ReviewCitation } from './citations';
+import { createMenuGrounding, groundedMenuConfidence, MIN_NAME_SUPPORT } from './menu-grounding';
+
+export interface MenuItemSource {
+  dish: string;
+  // Only quotes that were found verbatim in the reviews
+  citations: ReviewCitation[];
+  // 0-1, how much of the item the review text supports
+  support: number;
+}
+
+export interface MenuInsights {
+  dishes: string[];
+  // One entry per dish, in the same order; missing from insights cached before citations existed
+  items?: MenuItemSource[];
+  confidence: number;
+}
+
+export interface TasteProfile {
+  flavors: string[];
+  style: string;
+  textures?: string[];
+  specialties?: string[];
+  confidence: number;
+}
+
+// What a restaurant gets when its reviews could not be read
+export const NO_MENU_INSIGHTS: MenuInsights = { dishes: [], items: [], confidence: 10 };
+export const UNKNOWN_TASTE_PROFILE: TasteProfile = { flavors: [], style: 'Unknown', confidence: 20 };
+
+export async function extractMenuFromReviews(reviews: PlaceReview[]): Promise<MenuInsights> {
+  if (reviews.length === 0) return { dishes: [], items: [], confidence: 0 };
+
+  const sourceReviews = reviews.slice(0, 10);
+  const reviewTexts = sourceReviews.map(r => r.text).join('\n\n');
+
+  const prompt = `Analyze these restaurant reviews to extract specific menu items and dishes mentioned.
+
+Reviews:
+${reviewTexts}
+
+Extract ONLY specific dish names, menu items, and food descriptions mentioned in the reviews.
+Return a JSON array of dishes with their descriptions, each with the review text that mentions it:
+
+Example format:
+[
+  {"dish": "Spicy chicken sandwich - crispy and flavorful", "evidence": ["the spicy chicken sandwich was so crispy"]},
+  {"dish": "Fish tacos - fresh with tangy sauce", "evidence": ["Fish tacos were fresh"]}
+]
+
+Focus on:
+- Specific dish names (not just "food" or "meal")
+- Descriptive adjectives about taste/texture
+- Menu items that reviewers specifically named
+- Signature dishes or chef recommendations
+- evidence: one or two short phrases copied word for word from the reviews
+
+Return only the JSON array, no other text:`;
+
+  // Provider errors are left to the caller, which can retry them; only a bad answer falls back
+  const responseText = await getLLMProvider().generate({
+    task: 'menu-extraction',
+    prompt: prompt,
+    maxTokens: 300,
+    temperature: 0.2,
+  });
+
+  try {
+    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+    
+    if (jsonMatch) {
+      // Best-supported first, so prompts that only show the top few see grounded dishes
+      const items = groundMenuItems(parseMenuItems(JSON.parse(jsonMatch[0]), sourceReviews), sourceReviews)
+        .sort((a, b) => b.support - a.support)
+        .slice(0, 15); // Limit to 15 dishes
+      return {
+        dishes: items.map(item => item.dish),
+        items,
+        confidence: groundedMenuConfidence(items),
+      };
+    }
+  } catch (error) {
+    console.error('Error extracting menu from reviews:', error);
+  }
+
+  return NO_MENU_INSIGHTS;
+}
+
+type ParsedMenuItem = Omit<MenuItemSource, 'support'>;
+
+// Accepts plain dish strings too, which older prompts asked for; those simply have no citations
+function parseMenuItems(entries: unknown, reviews: PlaceReview[]): ParsedMenuItem[] {
+  if (!Array.isArray(entries)) return [];
+
+  return entries.flatMap((entry): ParsedMenuItem[] => {
+    if (typeof entry === 'string' && entry.trim()) return [{ dish: entry.trim(), citations: [] }];
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { dish, evidence } = entry as { dish?: unknown; evidence?: unknown };
+    if (typeof dish !== 'string' || !dish.trim()) return [];
+    return [{ dish: dish.trim(), citations: citeReviews(evidence, reviews) }];
+  });
+}
+
+export async function extractTasteProfile(reviews: PlaceReview[], restaurantName: string): Promise<TasteProfile> {
+  if (reviews.length === 0) return { flavors: [], style: 'Unknown', confidence: 0 };
+
+  const reviewTexts = reviews.slice(0, 8).map(r => r.text).join('\n\n');
+
+  const prompt = `Analyze these restaurant reviews to create a taste/flavor profile for "${restaurantName}".
+
+Reviews:
+${reviewTexts}
+
+Based on the reviews, determine:
+1. Primary flavors commonly mentioned (spicy, sweet, savory, salty, umami, tangy, etc.)
+2. Cooking styles (grilled, fried, steamed, roasted, etc.)
+3. Cuisine characteristics (authentic, fusion, comfort food, etc.)
+4. Texture descriptions (crispy, tender, creamy, etc.)
+
+Return ONLY a JSON object in this format:
+{
+  "flavors": ["spicy", "savory", "umami"],
+  "style": "Asian fusion with bold flavors",
+  "textures": ["crispy", "tender"],
+  "specialties": ["spicy dishes", "grilled items"]
+}`;
+
+  const responseText = await getLLMProvider().generate({
+    task: 'taste-profile',
+    prompt: prompt,
+    maxTokens: 200,
+    temperature: 0.2,
+  });
+
+  try {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    
+    if (jsonMatch) {
+      const profile = JSON.parse(jsonMatch[0]);
+      if (typeof profile === 'object' && profile !== null && !Array.isArray(profile)) {
+        // Only the fields we know, in the shapes later stages join and compare
+        return {
+          flavors: toStringList(profile.flavors),
+          style: typeof profile.style === 'string' && profile.style.trim() ? profile.style.trim() : UNKNOWN_TASTE_PROFILE.style,
+          textures: toStringList(profile.textures),
+          specialties: toStringList(profile.specialties),
+          confidence: reviews.length > 3 ? 80 : 50
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Error extracting taste profile:', error);
+  }
+
+  return UNKNOWN_TASTE_PROFILE;
+}
+
+// The model sometimes answers "spicy, savory" where a list was asked for
+function toStringList(value: unknown): string[] {
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Drops items whose name the reviews never mention, so invented dishes cannot
+// reach the availability prompt, and weighs the rest by how well they are supported.
+function groundMenuItems(items: ParsedMenuItem[], reviews: PlaceReview[]): MenuItemSource[] {
+  const ground = createMenuGrounding(reviews);
+
+  return items.flatMap(item => {
+    const grounding = ground(item.dish);
+    if (grounding.name < MIN_NAME_SUPPORT) {
+      console.warn(`Dropping menu item not supported by reviews: "${item.dish}"`);
+      return [];
+    }
+    return [{ ...item, support: grounding.support }];
+  });
+}
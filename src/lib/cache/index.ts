@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dataPath, readJsonFile, writeJsonFile } from '@/lib/storage/files';
+
+export type CacheStats = Record<string, { hits: number; misses: number }>;
+
+export interface CacheOptions<T> {
+  namespace: string;
+  key: string;
+  ttlMs: number;
+  // Entries stored with a different hash are treated as stale (e.g. new reviews)
+  contentHash?: string;
+  stats?: CacheStats;
+  // Lets callers skip caching fallback values produced after an error
+  shouldCache?: (value: T) => boolean;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  contentHash?: string;
+  value: T;
+}
+
+export function hashContent(value: unknown) {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+function entryPath(namespace: string, key: string, extension = 'json') {
+  return dataPath('cache', namespace, `${createHash('sha1').update(key).digest('hex')}.${extension}`);
+}
+
+function record(stats: CacheStats | undefined, namespace: string, hit: boolean) {
+  if (!stats) return;
+  stats[namespace] = stats[namespace] || { hits: 0, misses: 0 };
+  stats[namespace][hit ? 'hits' : 'misses']++;
+}
+
+// Returns the cached value when it is fresh, otherwise computes and stores it.
+// Cache I/O problems never fail the caller; they just count as misses.
+export async function cached<T>(options: CacheOptions<T>, compute: () => Promise<T>): Promise<T> {
+  const { namespace, key, ttlMs, contentHash, stats, shouldCache } = options;
+
+  if (process.env.CACHE_DISABLED === '1') {
+    record(stats, namespace, false);
+    return compute();
+  }
+
+  const filePath = entryPath(namespace, key);
+  const entry = await readJsonFile<CacheEntry<T>>(filePath);
+  if (entry && entry.key === key && entry.expiresAt > Date.now() && entry.contentHash === contentHash) {
+    record(stats, namespace, true);
+    return entry.value;
+  }
+
+  record(stats, namespace, false);
+  const value = await compute();
+
+  if (!shouldCache || shouldCache(value)) {
+    const now = Date.now();
+    try {
+      await writeJsonFile(filePath, { key, storedAt: now, expiresAt: now + ttlMs, contentHash, value });
+    } catch (error) {
+      console.warn(`Could not write cache entry ${namespace}/${key}:`, error);
+    }
+  }
+
+  return value;
+}
+
+export interface CachedFile {
+  data: Buffer;
+  contentType: string;
+}
+
+// Binary counterpart of `cached` for images and the like: the bytes go in a
+// `.bin` file next to a small JSON entry holding the metadata.
+export async function cachedFile(
+  options: Pick<CacheOptions<CachedFile>, 'namespace' | 'key' | 'ttlMs' | 'stats'>,
+  compute: () => Promise<CachedFile>
+): Promise<CachedFile> {
+  const { namespace, key, ttlMs, stats } = options;
+
+  if (process.env.CACHE_DISABLED === '1') {
+    record(stats, namespace, false);
+    return compute();
+  }
+
+  const metaPath = entryPath(namespace, key);
+  const dataFilePath = entryPath(namespace, key, 'bin');
+  const entry = await readJsonFile<Omit<CacheEntry<string>, 'value'> & { contentType: string }>(metaPath);
+  if (entry && entry.key === key && entry.expiresAt > Date.now()) {
+    try {
+      const data = await fs.readFile(dataFilePath);
+      record(stats, namespace, true);
+      return { data, contentType: entry.contentType };
+    } catch {
+      // Metadata without its data file: fall through and refetch
+    }
+  }
+
+  record(stats, namespace, false);
+  const file = await compute();
+
+  const now = Date.now();
+  try {
+    await fs.mkdir(path.dirname(dataFilePath), { recursive: true });
+    await fs.writeFile(dataFilePath, file.data);
+    await writeJsonFile(metaPath, { key, storedAt: now, expiresAt: now + ttlMs, contentType: file.contentType });
+  } catch (error) {
+    console.warn(`Could not write cache file ${namespace}/${key}:`, error);
+  }
+
+  return file;
+}
@@ -0,0 +1,49 @@
+// Shared by the API and the browser: which restrictions a diner can declare,
+// and the shape of a compatibility verdict for a restaurant or a dish.
+
+export type DietaryRestriction =
+  | 'vegetarian'
+  | 'vegan'
+  | 'halal'
+  | 'kosher'
+  | 'gluten-free'
+  | 'nut-allergy'
+  | 'shellfish-allergy'
+  | 'dairy-allergy';
+
+export const DIETARY_RESTRICTIONS: Array<{ value: DietaryRestriction; label: string }> = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+  { value: 'gluten-free', label: 'Gluten-free' },
+  { value: 'nut-allergy', label: 'Nut allergy' },
+  { value: 'shellfish-allergy', label: 'Shellfish allergy' },
+  { value: 'dairy-allergy', label: 'Dairy allergy' },
+];
+
+// `unknown` means the reviews say too little to judge either way
+export type DietaryStatus = 'compatible' | 'caution' | 'incompatible' | 'unknown';
+
+export interface DietaryEvidence {
+  quote: string;
+  author?: string;
+}
+
+export interface DietaryAssessment {
+  status: DietaryStatus;
+  notes: string;
+  evidence: DietaryEvidence[];
+}
+
+export interface DishDietaryAssessment extends DietaryAssessment {
+  allergenWarnings: string[];
+}
+
+export function isDietaryRestriction(value: unknown): value is DietaryRestriction {
+  return DIETARY_RESTRICTIONS.some(restriction => restriction.value === value);
+}
+
+export function dietaryLabel(restriction: DietaryRestriction) {
+  return DIETARY_RESTRICTIONS.find(option => option.value === restriction)?.label || restriction;
+}
@@ -0,0 +1,35 @@
+import { getCohereClient } from '@/lib/llm/cohere';
+import { EmbeddingInputType, EmbeddingProvider } from './types';
+
+// Cohere's limit for one embed request
+const MAX_TEXTS_PER_CALL = 96;
+
+export function createCohereEmbeddingProvider(model = 'embed-english-v3.0'): EmbeddingProvider {
+  const embedBatch = async (texts: string[], inputType: EmbeddingInputType) => {
+    const response = await getCohereClient().embed({
+      texts,
+      model,
+      inputType: inputType === 'query' ? 'search_query' : 'search_document',
+    });
+
+    if (response.responseType === 'embeddings_floats') {
+      return response.embeddings;
+    }
+    return response.embeddings.float || [];
+  };
+
+  return {
+    name: `cohere:${model}`,
+    async embed(texts: string[], inputType: EmbeddingInputType) {
+      if (texts.length === 0) return [];
+
+      // Longer lists are split into requests Cohere accepts; vectors come back in input order
+      const batches: string[][] = [];
+      for (let start = 0; start < texts.length; start += MAX_TEXTS_PER_CALL) {
+        batches.push(texts.slice(start, start + MAX_TEXTS_PER_CALL));
+      }
+      const vectors = await Promise.all(batches.map(batch => embedBatch(batch, inputType)));
+      return vectors.flat();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { createCohereEmbeddingProvider } from './cohere';
+import { createLocalEmbeddingProvider } from './local';
+import { createOpenAICompatibleEmbeddingProvider } from './openai-compatible';
+import { EmbeddingProvider } from './types';
+
+export type { EmbeddingInputType, EmbeddingProvider } from './types';
+export { cosineSimilarity, createVectorIndex } from './vector-index';
+export type { VectorIndex, VectorMatch } from './vector-index';
+
+let provider: EmbeddingProvider | null = null;
+
+// Picks the provider from EMBEDDING_PROVIDER (cohere | openai | local). When
+// unset it follows LLM_PROVIDER, with the stub LLM mapping to local embeddings.
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+
+  const defaultProvider = process.env.LLM_PROVIDER === 'stub' ? 'local' : process.env.LLM_PROVIDER || 'cohere';
+  const model = process.env.EMBEDDING_MODEL;
+
+  switch (process.env.EMBEDDING_PROVIDER || defaultProvider) {
+    case 'cohere':
+      provider = createCohereEmbeddingProvider(model);
+      break;
+    case 'openai':
+      provider = createOpenAICompatibleEmbeddingProvider(
+        model || 'nomic-embed-text',
+        process.env.OPENAI_BASE_URL,
+        process.env.OPENAI_API_KEY
+      );
+      break;
+    case 'local':
+      provider = createLocalEmbeddingProvider();
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${process.env.EMBEDDING_PROVIDER}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,42 @@
+import { EmbeddingProvider } from './types';
+
+const DIMENSIONS = 256;
+
+// FNV-1a, enough to spread character trigrams over the buckets
+function hash(text: string) {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function embedText(text: string) {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  const words = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [];
+
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      vector[hash(padded.slice(i, i + 3)) % DIMENSIONS] += 1;
+    }
+    // Whole words count double so shared words beat shared fragments
+    vector[hash(word) % DIMENSIONS] += 2;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+// Hashed character-trigram embeddings: no model, no network, fully
+// deterministic. Catches spelling variants ("birria taco" vs "Birria tacos")
+// but not synonyms, which is fine for offline development and tests.
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    async embed(texts: string[]) {
+      return texts.map(embedText);
+    },
+  };
+}
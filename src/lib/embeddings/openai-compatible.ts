@@ -0,0 +1,27 @@
+import axios from 'axios';
+import { EmbeddingProvider } from './types';
+
+export function createOpenAICompatibleEmbeddingProvider(
+  model: string,
+  baseUrl = 'http://localhost:11434/v1',
+  apiKey?: string
+): EmbeddingProvider {
+  return {
+    name: `openai:${model}`,
+    async embed(texts: string[]) {
+      if (texts.length === 0) return [];
+
+      const response = await axios.post(
+        `${baseUrl.replace(/\/$/, '')}/embeddings`,
+        { model, input: texts },
+        {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        }
+      );
+
+      return (response.data.data as Array<{ index: number; embedding: number[] }>)
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// `query` texts are what the user is looking for, `document` texts are what
+// gets searched; some models embed the two differently.
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
@@ -0,0 +1,50 @@
+export interface VectorIndexEntry<T> {
+  vector: number[];
+  payload: T;
+}
+
+export interface VectorMatch<T> {
+  payload: T;
+  score: number;
+}
+
+export interface VectorIndex<T> {
+  size: number;
+  add(vector: number[], payload: T): void;
+  query(vector: number[], limit?: number, filter?: (payload: T) => boolean): VectorMatch<T>[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// In-memory, brute-force index. A search only ever holds a few hundred menu
+// items, so a linear scan is faster than building anything smarter.
+export function createVectorIndex<T>(): VectorIndex<T> {
+  const entries: VectorIndexEntry<T>[] = [];
+
+  return {
+    get size() {
+      return entries.length;
+    },
+    add(vector: number[], payload: T) {
+      entries.push({ vector, payload });
+    },
+    query(vector: number[], limit = 5, filter?: (payload: T) => boolean) {
+      return entries
+        .filter(entry => !filter || filter(entry.payload))
+        .map(entry => ({ payload: entry.payload, score: cosineSimilarity(vector, entry.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+// Average adult walking pace, ~4.8 km/h
+const WALKING_METERS_PER_MINUTE = 80;
+
+export function haversineDistanceMeters(a: LatLng, b: LatLng) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export function walkingMinutes(meters: number) {
+  return Math.max(1, Math.round(meters / WALKING_METERS_PER_MINUTE));
+}
+
+export function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+// "1.2 km · 15 min walk", or just the distance when walking is not realistic
+export function describeDistance(meters: number) {
+  const minutes = walkingMinutes(meters);
+  return minutes <= 60 ? `${formatDistance(meters)} · ${minutes} min walk` : formatDistance(meters);
+}
@@ -0,0 +1,145 @@
+import { DishProfile } from '@/lib/analysis/dish-profile';
+import { compareFlavorVectors, dishFlavorVector, FlavorMatch, flavorVectorFromText } from '@/lib/analysis/flavor-vector';
+import { cosineSimilarity, getEmbeddingProvider } from '@/lib/embeddings';
+import { haversineDistanceMeters, LatLng } from '@/lib/geo';
+import { dishKey, getKnownDishProfile, loadKnowledge, restaurantId } from './store';
+import { KnowledgeMenuItem, KnowledgeRestaurant, KnowledgeVerdict } from './types';
+
+export interface Nearby {
+  center: LatLng;
+  radius: number;
+}
+
+export interface PlaceServingDish {
+  restaurant: KnowledgeRestaurant;
+  distanceMeters?: number;
+  verdict: KnowledgeVerdict | null;
+  // Items whose name contains every word of the dish
+  menuItems: KnowledgeMenuItem[];
+}
+
+export interface SimilarDish {
+  menuItem: KnowledgeMenuItem;
+  restaurant: KnowledgeRestaurant;
+  distanceMeters: number;
+  // 0-1, semantic similarity of the names; flavor overlap when embeddings are unavailable
+  similarity: number;
+  flavorMatch: FlavorMatch | null;
+}
+
+const MAX_SIMILAR_DISHES = 20;
+// Closest items embedded per query; the embeddings provider splits them into requests it accepts
+const MAX_SIMILAR_CANDIDATES = 300;
+
+// "spicy chicken sandwich" is in "Nashville Spicy Chicken Sandwich" but not in "Chicken sandwich"
+function nameContains(name: string, dish: string) {
+  const words = new Set(dishKey(name).split('-'));
+  const wanted = dishKey(dish).split('-').filter(Boolean);
+  return wanted.length > 0 && wanted.every(word => words.has(word));
+}
+
+function withinReach(restaurant: KnowledgeRestaurant, near: Nearby | undefined) {
+  if (!near) return { inside: true, distanceMeters: undefined };
+  const distanceMeters = Math.round(haversineDistanceMeters(near.center, restaurant.location));
+  return { inside: distanceMeters <= near.radius, distanceMeters };
+}
+
+// Everything known about one place; rejected items are listed too, flagged, so they can be restored
+export async function dishesAtPlace(placesProvider: string, placeId: string) {
+  const id = restaurantId(placesProvider, placeId);
+  const knowledge = await loadKnowledge();
+  const restaurant = knowledge.restaurants.find(entry => entry.id === id);
+  if (!restaurant) return null;
+
+  const menuItems = knowledge.menuItems
+    .filter(item => item.restaurantId === id)
+    .sort((a, b) => Number(a.rejected) - Number(b.rejected) || (b.support ?? 1) - (a.support ?? 1));
+  const verdicts = knowledge.verdicts
+    .filter(verdict => verdict.restaurantId === id)
+    .sort((a, b) => b.observedAt.localeCompare(a.observedAt));
+  return { restaurant, menuItems, verdicts };
+}
+
+// Places with a verdict that they serve the dish or something similar, or a
+// menu item naming it. A corrected "does not serve" verdict rules a place out.
+export async function placesServingDish(placesProvider: string, dish: string, near?: Nearby): Promise<PlaceServingDish[]> {
+  const key = dishKey(dish);
+  const knowledge = await loadKnowledge();
+
+  const results: PlaceServingDish[] = [];
+  for (const restaurant of knowledge.restaurants) {
+    if (restaurant.placesProvider !== placesProvider) continue;
+    const { inside, distanceMeters } = withinReach(restaurant, near);
+    if (!inside) continue;
+
+    const verdict = knowledge.verdicts.find(entry => entry.restaurantId === restaurant.id && dishKey(entry.dish) === key) || null;
+    if (verdict?.source === 'manual' && !verdict.hasExactDish && !verdict.hasSimilarDish) continue;
+    const menuItems = knowledge.menuItems.filter(item =>
+      item.restaurantId === restaurant.id && !item.rejected && nameContains(item.dish, dish)
+    );
+    if (menuItems.length === 0 && !verdict?.hasExactDish && !verdict?.hasSimilarDish) continue;
+
+    results.push({ restaurant, ...(distanceMeters !== undefined ? { distanceMeters } : {}), verdict, menuItems });
+  }
+
+  // Exact verdicts first, then similar ones, then places only known through their menu
+  const rank = ({ verdict }: PlaceServingDish) => verdict?.hasExactDish ? 0 : verdict?.hasSimilarDish ? 1 : 2;
+  return results.sort((a, b) =>
+    rank(a) - rank(b) ||
+    (b.verdict?.confidence ?? 0) - (a.verdict?.confidence ?? 0) ||
+    (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0)
+  );
+}
+
+// Other menu items within the radius that are most like the dish: by embedding
+// similarity of the names, with the flavor overlap alongside
+export async function similarDishes(
+  placesProvider: string,
+  dish: string,
+  near: Nearby
+): Promise<{ dish: string; dishProfile: DishProfile | null; results: SimilarDish[] }> {
+  const known = await getKnownDishProfile(dish);
+  const sourceVector = dishFlavorVector(dish, known?.profile ?? null);
+  const knowledge = await loadKnowledge();
+
+  const restaurants = new Map<string, { restaurant: KnowledgeRestaurant; distanceMeters: number }>();
+  for (const restaurant of knowledge.restaurants) {
+    if (restaurant.placesProvider !== placesProvider) continue;
+    const { inside, distanceMeters } = withinReach(restaurant, near);
+    if (inside) restaurants.set(restaurant.id, { restaurant, distanceMeters: distanceMeters ?? 0 });
+  }
+
+  const candidates = knowledge.menuItems
+    .filter(item => restaurants.has(item.restaurantId) && !item.rejected && !nameContains(item.dish, dish))
+    .map(item => ({ item, ...restaurants.get(item.restaurantId)! }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    .slice(0, MAX_SIMILAR_CANDIDATES);
+  if (candidates.length === 0) return { dish, dishProfile: known?.profile ?? null, results: [] };
+  const flavorMatches = candidates.map(({ item }) => compareFlavorVectors(sourceVector, flavorVectorFromText(item.description)));
+
+  let similarities: number[];
+  try {
+    const embeddings = getEmbeddingProvider();
+    const [[dishVector], itemVectors] = await Promise.all([
+      embeddings.embed([dish], 'query'),
+      embeddings.embed(candidates.map(({ item }) => item.dish), 'document'),
+    ]);
+    similarities = itemVectors.map(vector => cosineSimilarity(dishVector, vector));
+  } catch (error) {
+    console.warn('Dish embedding failed, ranking similar dishes by flavor only:', error);
+    similarities = flavorMatches.map(match => (match?.score ?? 0) / 100);
+  }
+
+  const results: SimilarDish[] = candidates
+    .map(({ item, restaurant, distanceMeters }, index) => ({
+      menuItem: item,
+      restaurant,
+      distanceMeters,
+      similarity: Math.round(similarities[index] * 100) / 100,
+      flavorMatch: flavorMatches[index],
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_SIMILAR_DISHES);
+
+  return { dish, dishProfile: known?.profile ?? null, results };
+}
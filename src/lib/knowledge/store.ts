@@ -0,0 +1,312 @@
+import { DishAvailability } from '@/lib/analysis/availability';
+import { DishProfile } from '@/lib/analysis/dish-profile';
+import { menuItemName } from '@/lib/analysis/menu-match';
+import { MenuInsights, TasteProfile } from '@/lib/analysis/review-extraction';
+import { hashContent } from '@/lib/cache';
+import { LatLng } from '@/lib/geo';
+import { createCollection } from '@/lib/storage/collection';
+import { KnowledgeDish, KnowledgeMenuItem, KnowledgeRestaurant, KnowledgeSource, KnowledgeVerdict } from './types';
+
+// What a search learned about one place
+export interface ObservedPlace {
+  placeId: string;
+  name: string;
+  address: string;
+  location: LatLng;
+  types: string[];
+  rating?: number;
+  menuInsights: MenuInsights;
+  tasteProfile: TasteProfile;
+  verdicts: Array<{ dish: string; availability: DishAvailability }>;
+}
+
+export interface SearchObservations {
+  placesProvider: string;
+  dishes: Array<{ dish: string; profile: DishProfile | null; sourceRestaurant: string | null }>;
+  places: ObservedPlace[];
+}
+
+export interface MenuItemCorrection {
+  description?: string;
+  rejected?: boolean;
+}
+
+export interface VerdictCorrection {
+  hasExactDish?: boolean;
+  hasSimilarDish?: boolean;
+  reasoning?: string;
+}
+
+export type DishCorrection = Partial<Pick<KnowledgeDish, 'analysis' | 'cuisineType' | 'flavorProfile' | 'cookingStyle'>>;
+
+const restaurants = createCollection<KnowledgeRestaurant>('knowledge-restaurants');
+const dishes = createCollection<KnowledgeDish>('knowledge-dishes');
+const menuItems = createCollection<KnowledgeMenuItem>('knowledge-menu-items');
+const verdicts = createCollection<KnowledgeVerdict>('knowledge-verdicts');
+
+// "Crème Brûlée!" -> "creme-brulee"
+export function dishKey(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function restaurantId(placesProvider: string, placeId: string) {
+  return `${placesProvider}:${placeId}`;
+}
+
+function menuItemId(restaurant: string, dish: string) {
+  return hashContent(['menu-item', restaurant, dishKey(dish)]);
+}
+
+function verdictId(restaurant: string, dish: string) {
+  return hashContent(['verdict', restaurant, dishKey(dish)]);
+}
+
+function byId<T extends { id: string }>(records: T[]) {
+  return new Map(records.map(record => [record.id, record]));
+}
+
+// True when `next` says something `existing` does not, timestamps aside
+function differs<T extends object>(existing: T | undefined, next: T, ...timestamps: Array<keyof T>) {
+  if (!existing) return true;
+  const withoutTimestamps = (record: T) => JSON.stringify({ ...record, ...Object.fromEntries(timestamps.map(key => [key, null])) });
+  return withoutTimestamps(existing) !== withoutTimestamps(next);
+}
+
+export async function loadKnowledge() {
+  const [allRestaurants, allDishes, allMenuItems, allVerdicts] = await Promise.all([
+    restaurants.list(),
+    dishes.list(),
+    menuItems.list(),
+    verdicts.list(),
+  ]);
+  return { restaurants: allRestaurants, dishes: allDishes, menuItems: allMenuItems, verdicts: allVerdicts };
+}
+
+// Keeps what a search found: the places, their menu items and taste profiles,
+// the dish profiles and every scored verdict. Hand-corrected records are left
+// alone, and only records that changed are written, so a collection nothing
+// new was learned about is not rewritten.
+export async function recordObservations({ placesProvider, dishes: observedDishes, places }: SearchObservations) {
+  const now = new Date().toISOString();
+  const known = await loadKnowledge();
+  const [knownRestaurants, knownDishes, knownItems, knownVerdicts] = [
+    byId(known.restaurants),
+    byId(known.dishes),
+    byId(known.menuItems),
+    byId(known.verdicts),
+  ];
+
+  const dishRecords: KnowledgeDish[] = observedDishes.flatMap(({ dish, profile, sourceRestaurant }) => {
+    const id = dishKey(dish);
+    if (!profile || !id || knownDishes.get(id)?.source === 'manual') return [];
+    const { analysis, cuisineType, flavorProfile, cookingStyle } = profile;
+    return [{ id, name: dish, analysis, cuisineType, flavorProfile, cookingStyle, sourceRestaurant, source: 'ai', updatedAt: now }];
+  });
+
+  const restaurantRecords: KnowledgeRestaurant[] = [];
+  const itemRecords: KnowledgeMenuItem[] = [];
+  const verdictRecords: KnowledgeVerdict[] = [];
+  for (const place of places) {
+    const id = restaurantId(placesProvider, place.placeId);
+    const existing = knownRestaurants.get(id);
+    restaurantRecords.push({
+      id,
+      placeId: place.placeId,
+      placesProvider,
+      name: place.name,
+      address: place.address,
+      location: place.location,
+      types: place.types,
+      rating: place.rating,
+      // A fallback profile says nothing new
+      tasteProfile: place.tasteProfile.style !== 'Unknown' ? place.tasteProfile : existing?.tasteProfile ?? null,
+      firstSeenAt: existing?.firstSeenAt ?? now,
+      updatedAt: now,
+    });
+
+    // Insights cached before citations existed only have the dish strings
+    const items = place.menuInsights.items ?? place.menuInsights.dishes.map(dish => ({ dish, citations: [], support: undefined }));
+    for (const item of items) {
+      const dish = menuItemName(item.dish);
+      const itemId = menuItemId(id, dish);
+      const existingItem = knownItems.get(itemId);
+      if (!dishKey(dish) || existingItem?.source === 'manual') continue;
+      itemRecords.push({
+        id: itemId,
+        restaurantId: id,
+        dish,
+        description: item.dish,
+        citations: item.citations.length > 0 ? item.citations : existingItem?.citations ?? [],
+        support: item.support,
+        source: 'ai',
+        rejected: false,
+        firstSeenAt: existingItem?.firstSeenAt ?? now,
+        updatedAt: now,
+      });
+    }
+
+    for (const { dish, availability } of place.verdicts) {
+      const vId = verdictId(id, dish);
+      if (availability.status !== 'scored' || knownVerdicts.get(vId)?.source === 'manual') continue;
+      verdictRecords.push({
+        id: vId,
+        restaurantId: id,
+        dish,
+        hasExactDish: availability.hasExactDish,
+        hasSimilarDish: availability.hasSimilarDish,
+        confidence: availability.confidence,
+        reasoning: availability.reasoning,
+        citations: availability.citations,
+        source: 'ai',
+        observedAt: now,
+      });
+    }
+  }
+
+  const changedDishes = dishRecords.filter(record => differs(knownDishes.get(record.id), record, 'updatedAt'));
+  const changedRestaurants = restaurantRecords.filter(record => differs(knownRestaurants.get(record.id), record, 'updatedAt'));
+  const changedItems = itemRecords.filter(record => differs(knownItems.get(record.id), record, 'updatedAt'));
+  const changedVerdicts = verdictRecords.filter(record => differs(knownVerdicts.get(record.id), record, 'observedAt'));
+
+  // A correction may have landed since the records were read; the write queue checks again
+  const notManual = (record: { source: KnowledgeSource }) => record.source !== 'manual';
+  if (changedDishes.length > 0) await dishes.putMany(changedDishes, notManual);
+  if (changedRestaurants.length > 0) await restaurants.putMany(changedRestaurants);
+  if (changedItems.length > 0) await menuItems.putMany(changedItems, notManual);
+  if (changedVerdicts.length > 0) await verdicts.putMany(changedVerdicts, notManual);
+}
+
+// Applies hand corrections to freshly extracted insights: rejected items are
+// dropped, corrected items replace the model's wording of the same dish, and
+// items added by hand are appended, so every later prompt sees them
+export async function applyKnownMenuItems(placesProvider: string, placeId: string, insights: MenuInsights): Promise<MenuInsights> {
+  let corrected: KnowledgeMenuItem[];
+  try {
+    const id = restaurantId(placesProvider, placeId);
+    corrected = await menuItems.list(item => item.restaurantId === id && (item.source === 'manual' || item.rejected));
+  } catch (error) {
+    console.warn(`Could not read known menu items for ${placeId}:`, error);
+    return insights;
+  }
+  if (corrected.length === 0) return insights;
+
+  const rejected = new Set(corrected.filter(item => item.rejected).map(item => dishKey(item.dish)));
+  const keep = (dish: string) => !rejected.has(dishKey(menuItemName(dish)));
+  const manual = new Map(corrected.filter(item => !item.rejected).map(item => [dishKey(item.dish), item]));
+  const correct = (dish: string) => manual.get(dishKey(menuItemName(dish)))?.description ?? dish;
+  const present = new Set(insights.dishes.map(dish => dishKey(menuItemName(dish))));
+  const added = [...manual.values()].filter(item => !present.has(dishKey(item.dish)));
+
+  return {
+    ...insights,
+    dishes: [...insights.dishes.filter(keep).map(correct), ...added.map(item => item.description)],
+    ...(insights.items ? {
+      items: [
+        ...insights.items.filter(item => keep(item.dish)).map(item => ({ ...item, dish: correct(item.dish) })),
+        ...added.map(item => ({ dish: item.description, citations: item.citations, support: 1 })),
+      ],
+    } : {}),
+  };
+}
+
+// A hand-corrected profile is used as is. An AI one stands in when the search
+// has no source restaurant to analyze the dish at.
+export async function getKnownDishProfile(dish: string): Promise<{ profile: DishProfile; source: KnowledgeDish['source'] } | null> {
+  try {
+    const known = await dishes.get(dishKey(dish));
+    if (!known) return null;
+    const { analysis, cuisineType, flavorProfile, cookingStyle, source } = known;
+    return { profile: { analysis, cuisineType, flavorProfile, cookingStyle }, source };
+  } catch (error) {
+    console.warn(`Could not read the known profile for "${dish}":`, error);
+    return null;
+  }
+}
+
+// Hand-corrected verdicts replace the model's for the same dish and place
+export async function applyKnownVerdicts(
+  placesProvider: string,
+  dish: string,
+  placeIds: string[],
+  availability: DishAvailability[]
+): Promise<DishAvailability[]> {
+  let corrected: Map<string, KnowledgeVerdict>;
+  try {
+    const ids = new Set(placeIds.map(placeId => verdictId(restaurantId(placesProvider, placeId), dish)));
+    corrected = byId(await verdicts.list(verdict => verdict.source === 'manual' && ids.has(verdict.id)));
+  } catch (error) {
+    console.warn(`Could not read known verdicts for "${dish}":`, error);
+    return availability;
+  }
+  if (corrected.size === 0) return availability;
+
+  return availability.map((entry, index) => {
+    const verdict = corrected.get(verdictId(restaurantId(placesProvider, placeIds[index]), dish));
+    if (!verdict) return entry;
+    const { hasExactDish, hasSimilarDish, confidence, reasoning, citations } = verdict;
+    return { status: 'scored', hasExactDish, hasSimilarDish, confidence, reasoning, citations };
+  });
+}
+
+// Null when the place is not in the knowledge base yet
+export async function addMenuItem(
+  placesProvider: string,
+  placeId: string,
+  dish: string,
+  description = dish
+): Promise<KnowledgeMenuItem | null> {
+  const id = restaurantId(placesProvider, placeId);
+  if (!(await restaurants.get(id))) return null;
+
+  const now = new Date().toISOString();
+  const itemId = menuItemId(id, dish);
+  const existing = await menuItems.get(itemId);
+  return menuItems.put({
+    id: itemId,
+    restaurantId: id,
+    dish,
+    description,
+    citations: existing?.citations ?? [],
+    source: 'manual',
+    rejected: false,
+    firstSeenAt: existing?.firstSeenAt ?? now,
+    updatedAt: now,
+  });
+}
+
+export function correctMenuItem(id: string, change: MenuItemCorrection) {
+  return menuItems.update(id, item => ({ ...item, ...change, source: 'manual', updatedAt: new Date().toISOString() }));
+}
+
+export function deleteMenuItem(id: string) {
+  return menuItems.remove(id);
+}
+
+// A corrected verdict is certain, and its reasoning says so unless one is given
+export function correctVerdict(id: string, change: VerdictCorrection) {
+  return verdicts.update(id, verdict => ({
+    ...verdict,
+    ...change,
+    reasoning: change.reasoning ?? 'Corrected by hand',
+    confidence: 100,
+    source: 'manual',
+    observedAt: new Date().toISOString(),
+  }));
+}
+
+export function deleteVerdict(id: string) {
+  return verdicts.remove(id);
+}
+
+export function getDish(id: string) {
+  return dishes.get(id);
+}
+
+export function correctDish(id: string, change: DishCorrection) {
+  return dishes.update(id, dish => ({ ...dish, ...change, source: 'manual', updatedAt: new Date().toISOString() }));
+}
@@ -0,0 +1,68 @@
+import type { ReviewCitation } from '@/lib/analysis/citations';
+import type { TasteProfile } from '@/lib/analysis/review-extraction';
+import type { LatLng } from '@/lib/geo';
+
+// `ai` records are refreshed by every search that sees them again; `manual`
+// ones were corrected by hand and searches never overwrite them
+export type KnowledgeSource = 'ai' | 'manual';
+
+// A place some search has detailed. Keyed by places provider and place id.
+export interface KnowledgeRestaurant {
+  id: string;
+  placeId: string;
+  placesProvider: string;
+  name: string;
+  address: string;
+  location: LatLng;
+  types: string[];
+  rating?: number;
+  tasteProfile: TasteProfile | null;
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+// A dish profile, keyed by the normalized dish name
+export interface KnowledgeDish {
+  id: string;
+  name: string;
+  analysis: string;
+  cuisineType: string;
+  flavorProfile: string[];
+  cookingStyle: string;
+  // The restaurant the dish was analyzed at, when there was one
+  sourceRestaurant: string | null;
+  source: KnowledgeSource;
+  updatedAt: string;
+}
+
+// A menu item observed at a restaurant, with the review quotes that mention it
+export interface KnowledgeMenuItem {
+  id: string;
+  restaurantId: string;
+  // Short name, e.g. "Fish tacos"
+  dish: string;
+  // The full extracted item, e.g. "Fish tacos - fresh with tangy sauce"
+  description: string;
+  citations: ReviewCitation[];
+  // 0-1, how much of the item the review text supports; unset for manual items
+  support?: number;
+  source: KnowledgeSource;
+  // Corrected as not served; kept so later searches do not add it back
+  rejected: boolean;
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+// The latest scored availability verdict for one dish at one restaurant
+export interface KnowledgeVerdict {
+  id: string;
+  restaurantId: string;
+  dish: string;
+  hasExactDish: boolean;
+  hasSimilarDish: boolean;
+  confidence: number;
+  reasoning: string;
+  citations: ReviewCitation[];
+  source: KnowledgeSource;
+  observedAt: string;
+}
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { DietaryRestriction, isDietaryRestriction } from '@/lib/dietary';
+import { SavedDish, SearchHistoryEntry } from './types';
+
+const USER_ID_KEY = 'dishhunt:userId';
+const HISTORY_KEY = 'dishhunt:history';
+const SAVED_DISHES_KEY = 'dishhunt:savedDishes';
+const DIETARY_KEY = 'dishhunt:dietary';
+const MAX_LOCAL_HISTORY = 50;
+
+// Browser-side access to history and saved dishes. The API routes are the
+// source of truth; localStorage mirrors them and takes over when they are
+// unreachable (offline, read-only deployment), so nothing is lost on reload.
+
+export function getUserId() {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    localStorage.setItem(USER_ID_KEY, userId);
+  }
+  return userId;
+}
+
+function headers() {
+  return { 'x-user-id': getUserId() };
+}
+
+function readLocal<T>(key: string): T[] {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal<T>(key: string, records: T[]) {
+  localStorage.setItem(key, JSON.stringify(records));
+}
+
+function localRecord() {
+  return { id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, createdAt: new Date().toISOString() };
+}
+
+export async function loadHistory(): Promise<SearchHistoryEntry[]> {
+  try {
+    const response = await axios.get('/api/history', { headers: headers() });
+    writeLocal(HISTORY_KEY, response.data.history);
+    return response.data.history;
+  } catch (error) {
+    console.warn('⚠️ History API unavailable, using local history:', error);
+    return readLocal<SearchHistoryEntry>(HISTORY_KEY);
+  }
+}
+
+export async function recordSearch(entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry[]> {
+  let saved: SearchHistoryEntry;
+  try {
+    const response = await axios.post('/api/history', entry, { headers: headers() });
+    saved = response.data.entry;
+  } catch (error) {
+    console.warn('⚠️ History API unavailable, saving search locally:', error);
+    saved = { ...entry, ...localRecord() };
+  }
+
+  const history = [saved, ...readLocal<SearchHistoryEntry>(HISTORY_KEY)].slice(0, MAX_LOCAL_HISTORY);
+  writeLocal(HISTORY_KEY, history);
+  return history;
+}
+
+export async function clearSearchHistory(): Promise<void> {
+  try {
+    await axios.delete('/api/history', { headers: headers() });
+  } catch (error) {
+    console.warn('⚠️ History API unavailable, clearing local history only:', error);
+  }
+  writeLocal(HISTORY_KEY, []);
+}
+
+export async function loadSavedDishes(): Promise<SavedDish[]> {
+  try {
+    const response = await axios.get('/api/saved-dishes', { headers: headers() });
+    writeLocal(SAVED_DISHES_KEY, response.data.dishes);
+    return response.data.dishes;
+  } catch (error) {
+    console.warn('⚠️ Saved dishes API unavailable, using local copy:', error);
+    return readLocal<SavedDish>(SAVED_DISHES_KEY);
+  }
+}
+
+export async function saveDishFingerprint(dish: Omit<SavedDish, 'id' | 'createdAt'>): Promise<SavedDish[]> {
+  let saved: SavedDish;
+  try {
+    const response = await axios.post('/api/saved-dishes', dish, { headers: headers() });
+    saved = response.data.dish;
+  } catch (error) {
+    console.warn('⚠️ Saved dishes API unavailable, saving locally:', error);
+    saved = { ...dish, ...localRecord() };
+  }
+
+  const dishes = [saved, ...readLocal<SavedDish>(SAVED_DISHES_KEY)];
+  writeLocal(SAVED_DISHES_KEY, dishes);
+  return dishes;
+}
+
+export async function removeSavedDish(id: string): Promise<SavedDish[]> {
+  if (!id.startsWith('local-')) {
+    try {
+      await axios.delete('/api/saved-dishes', { headers: headers(), params: { id } });
+    } catch (error) {
+      console.warn('⚠️ Saved dishes API unavailable, removing local copy only:', error);
+    }
+  }
+
+  const dishes = readLocal<SavedDish>(SAVED_DISHES_KEY).filter(dish => dish.id !== id);
+  writeLocal(SAVED_DISHES_KEY, dishes);
+  return dishes;
+}
+
+// Dietary needs are a per-browser preference and never leave localStorage
+export function loadDietaryNeeds(): DietaryRestriction[] {
+  return readLocal<unknown>(DIETARY_KEY).filter(isDietaryRestriction);
+}
+
+export function saveDietaryNeeds(restrictions: DietaryRestriction[]) {
+  writeLocal(DIETARY_KEY, restrictions);
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+
+// Anonymous per-browser id generated by the client; there are no accounts.
+export function getUserId(request: NextRequest): string | null {
+  const userId = request.headers.get('x-user-id');
+  return userId && /^[A-Za-z0-9_-]{8,64}$/.test(userId) ? userId : null;
+}
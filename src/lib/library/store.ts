@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { isPlaceId } from '@/lib/places';
+import { createCollection } from '@/lib/storage/collection';
+import { LibraryPlace, SavedDish, SearchHistoryEntry } from './types';
+
+type Owned<T> = T & { userId: string };
+
+const MAX_HISTORY_PER_USER = 50;
+// Bounds on what a client can store, since every entry is rendered back to it
+export const MAX_TEXT_LENGTH = 120;
+export const MAX_ANALYSIS_FIELD_LENGTH = 200;
+const MAX_FLAVORS = 20;
+
+const history = createCollection<Owned<SearchHistoryEntry>>('search-history');
+const savedDishes = createCollection<Owned<SavedDish>>('saved-dishes');
+
+function toHistoryEntry({ id, dish, sourceRestaurant, location, resultCount, createdAt }: Owned<SearchHistoryEntry>): SearchHistoryEntry {
+  return { id, dish, sourceRestaurant, location, resultCount, createdAt };
+}
+
+function toSavedDish({ id, name, sourceRestaurant, dishProfile, createdAt }: Owned<SavedDish>): SavedDish {
+  return { id, name, sourceRestaurant, dishProfile, createdAt };
+}
+
+function isBoundedString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+// A dish or place name a client sent; empty when it is missing or too long
+export function cleanLibraryText(value: unknown) {
+  return isBoundedString(value, MAX_TEXT_LENGTH) ? value.trim() : '';
+}
+
+// Null when absent; undefined when present but malformed
+export function toLibraryPlace(value: unknown): LibraryPlace | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object') return undefined;
+  const { name, address, placeId } = value as Record<string, unknown>;
+  if (!isBoundedString(name, MAX_TEXT_LENGTH)) return undefined;
+  if (address !== undefined && typeof address !== 'string') return undefined;
+  if (placeId !== undefined && !isPlaceId(placeId)) return undefined;
+  return {
+    name: name.trim(),
+    address: typeof address === 'string' ? address.slice(0, MAX_ANALYSIS_FIELD_LENGTH) : '',
+    ...(placeId ? { placeId } : {}),
+  };
+}
+
+export function toSearchLocation(value: unknown): SearchHistoryEntry['location'] | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+// Null when absent; undefined when present but malformed
+export function toSavedDishProfile(value: unknown): SavedDish['dishProfile'] | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object') return undefined;
+  const { cuisineType, flavorProfile = [], cookingStyle } = value as Record<string, unknown>;
+  if (typeof cuisineType !== 'string' || cuisineType.length > MAX_ANALYSIS_FIELD_LENGTH) return undefined;
+  if (typeof cookingStyle !== 'string' || cookingStyle.length > MAX_ANALYSIS_FIELD_LENGTH) return undefined;
+  if (
+    !Array.isArray(flavorProfile) ||
+    flavorProfile.length > MAX_FLAVORS ||
+    !flavorProfile.every(flavor => isBoundedString(flavor, MAX_TEXT_LENGTH))
+  ) {
+    return undefined;
+  }
+  return { cuisineType, flavorProfile, cookingStyle };
+}
+
+function newestFirst(a: { createdAt: string }, b: { createdAt: string }) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+export async function listHistory(userId: string): Promise<SearchHistoryEntry[]> {
+  const entries = await history.list(entry => entry.userId === userId);
+  return entries.sort(newestFirst).map(toHistoryEntry);
+}
+
+export async function addHistory(
+  userId: string,
+  entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>
+): Promise<SearchHistoryEntry> {
+  const record = await history.put({ ...entry, id: randomUUID(), userId, createdAt: new Date().toISOString() });
+
+  // Only the most recent searches are worth keeping
+  const stale = new Set(
+    (await history.list(e => e.userId === userId)).sort(newestFirst).slice(MAX_HISTORY_PER_USER).map(old => old.id)
+  );
+  if (stale.size > 0) await history.removeMany(e => stale.has(e.id));
+
+  return toHistoryEntry(record);
+}
+
+export async function clearHistory(userId: string) {
+  await history.removeMany(e => e.userId === userId);
+}
+
+export async function listSavedDishes(userId: string): Promise<SavedDish[]> {
+  const dishes = await savedDishes.list(dish => dish.userId === userId);
+  return dishes.sort(newestFirst).map(toSavedDish);
+}
+
+export async function saveDish(userId: string, dish: Omit<SavedDish, 'id' | 'createdAt'>): Promise<SavedDish> {
+  const record = await savedDishes.put({ ...dish, id: randomUUID(), userId, createdAt: new Date().toISOString() });
+  return toSavedDish(record);
+}
+
+export async function deleteSavedDish(userId: string, id: string) {
+  const dish = await savedDishes.get(id);
+  if (!dish || dish.userId !== userId) return false;
+  return savedDishes.remove(id);
+}
@@ -0,0 +1,29 @@
+// Shared by the API routes and the browser, so no server-only imports here.
+
+export interface LibraryPlace {
+  name: string;
+  address: string;
+  placeId?: string;
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  dish: string;
+  sourceRestaurant: LibraryPlace | null;
+  location: { latitude: number; longitude: number };
+  resultCount: number;
+  createdAt: string;
+}
+
+// A "dish fingerprint": enough to re-run the search from anywhere later
+export interface SavedDish {
+  id: string;
+  name: string;
+  sourceRestaurant: LibraryPlace | null;
+  dishProfile: {
+    cuisineType: string;
+    flavorProfile: string[];
+    cookingStyle: string;
+  } | null;
+  createdAt: string;
+}
@@ -0,0 +1,31 @@
+import { CohereClient } from 'cohere-ai';
+import { GenerateOptions, LLMProvider } from './types';
+
+let client: CohereClient | null = null;
+
+// Shared by the generation and embedding providers
+export function getCohereClient() {
+  if (!process.env.COHERE_API_KEY) {
+    throw new Error('Cohere API key not configured');
+  }
+  if (!client) {
+    client = new CohereClient({ token: process.env.COHERE_API_KEY });
+  }
+  return client;
+}
+
+export function createCohereProvider(model = 'command-r-plus'): LLMProvider {
+  return {
+    name: `cohere:${model}`,
+    async generate({ prompt, maxTokens, temperature }: GenerateOptions) {
+      const response = await getCohereClient().generate({
+        model,
+        prompt,
+        maxTokens,
+        temperature,
+      });
+
+      return response.generations[0]?.text?.trim() || '';
+    },
+  };
+}
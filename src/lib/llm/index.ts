@@ -0,0 +1,35 @@
+import { createCohereProvider } from './cohere';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createStubProvider } from './stub';
+import { LLMProvider } from './types';
+
+export type { GenerateOptions, LLMProvider, LLMTask } from './types';
+
+let provider: LLMProvider | null = null;
+
+// Picks the provider from LLM_PROVIDER (cohere | openai | stub), defaulting to Cohere.
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const model = process.env.LLM_MODEL;
+
+  switch (process.env.LLM_PROVIDER || 'cohere') {
+    case 'cohere':
+      provider = createCohereProvider(model);
+      break;
+    case 'openai':
+      provider = createOpenAICompatibleProvider(
+        model || 'llama3.1',
+        process.env.OPENAI_BASE_URL,
+        process.env.OPENAI_API_KEY
+      );
+      break;
+    case 'stub':
+      provider = createStubProvider(process.env.LLM_FIXTURES_DIR);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${process.env.LLM_PROVIDER}`);
+  }
+
+  return provider;
+}
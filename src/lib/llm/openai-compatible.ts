@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { GenerateOptions, LLMProvider } from './types';
+
+// Talks to any server exposing the OpenAI chat completions API
+// (Ollama, llama.cpp, vLLM, LM Studio, ...).
+export function createOpenAICompatibleProvider(
+  model: string,
+  baseUrl = 'http://localhost:11434/v1',
+  apiKey?: string
+): LLMProvider {
+  return {
+    name: `openai:${model}`,
+    async generate({ prompt, maxTokens, temperature }: GenerateOptions) {
+      const response = await axios.post(
+        `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: maxTokens,
+          temperature,
+        },
+        {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        }
+      );
+
+      return response.data.choices?.[0]?.message?.content?.trim() || '';
+    },
+  };
+}
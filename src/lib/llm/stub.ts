@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerateOptions, LLMProvider } from './types';
+
+// Deterministic provider for offline development and CI: every task answers
+// with the contents of `<fixturesDir>/<task>.txt`, whatever the prompt says.
+export function createStubProvider(fixturesDir = path.join(process.cwd(), 'fixtures', 'llm')): LLMProvider {
+  return {
+    name: 'stub',
+    async generate({ task }: GenerateOptions) {
+      const fixturePath = path.join(fixturesDir, `${task}.txt`);
+      try {
+        return (await fs.readFile(fixturePath, 'utf8')).trim();
+      } catch {
+        throw new Error(`No LLM fixture found for task "${task}" at ${fixturePath}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// Each AI step in the pipeline tags its prompt with a task so providers
+// (and the stub in particular) can tell the calls apart.
+export type LLMTask =
+  | 'dish-profile'
+  | 'menu-extraction'
+  | 'taste-profile'
+  | 'dish-availability'
+  | 'dish-analysis'
+  | 'dietary-assessment'
+  | 'dish-comparison'
+  | 'flavor-twins';
+
+export interface GenerateOptions {
+  task: LLMTask;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  generate(options: GenerateOptions): Promise<string>;
+}
@@ -0,0 +1,125 @@
+import { DishProfile, isDishProfile } from '@/lib/analysis/dish-profile';
+import { FlavorTwin, isFlavorTwin } from '@/lib/analysis/flavor-twins';
+import { GooglePlace, isPlaceId } from '@/lib/places';
+import { SourcePlace } from './dedupe';
+import { SearchMode } from './pipeline';
+
+// A text search that may still have results; `pageToken` is unset until its first page is fetched
+export interface PendingQuery {
+  query: string;
+  // Index into `flavorTwins` when the query looks for a twin dish
+  twin?: number;
+  pageToken?: string;
+}
+
+// A place some query returned that has not been shown yet
+export interface PendingPlace {
+  place: GooglePlace;
+  twin?: number;
+}
+
+// Everything a later page needs, so "load more" skips the source-dish analysis
+// and twin generation and never shows a place twice. The client gets it back
+// as an opaque string and has nothing to keep in sync.
+export interface SearchCursor {
+  dish: string;
+  restaurant: SourcePlace | null;
+  origin: { lat: number; lng: number };
+  // Grows as the search expands
+  radius: number;
+  mode: SearchMode;
+  maxBranchesPerChain: number;
+  dishProfile: DishProfile | null;
+  flavorTwins: FlavorTwin[];
+  queries: PendingQuery[];
+  pending: PendingPlace[];
+  // Place ids already returned, including collapsed branches
+  seen: string[];
+  // Branches returned so far per chain key
+  shownPerChain: Record<string, number>;
+  expansions: number;
+  page: number;
+}
+
+export function encodeCursor(cursor: SearchCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Null for anything that is not a cursor we issued. Cursors are not signed, so
+// every place id in one is checked before it can reach a details lookup.
+export function decodeCursor(value: unknown): SearchCursor | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return isSearchCursor(cursor) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalIndex = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+
+function isLocation(value: unknown): value is { lat: number; lng: number } {
+  if (typeof value !== 'object' || value === null) return false;
+  const location = value as Record<string, unknown>;
+  return isNumber(location.lat) && isNumber(location.lng);
+}
+
+function isSourcePlace(value: unknown): value is SourcePlace {
+  if (typeof value !== 'object' || value === null) return false;
+  const place = value as Record<string, unknown>;
+  return (
+    typeof place.name === 'string' &&
+    typeof place.address === 'string' &&
+    (place.placeId === undefined || typeof place.placeId === 'string')
+  );
+}
+
+function isPendingQuery(value: unknown): value is PendingQuery {
+  if (typeof value !== 'object' || value === null) return false;
+  const query = value as Record<string, unknown>;
+  return (
+    typeof query.query === 'string' &&
+    isOptionalIndex(query.twin) &&
+    (query.pageToken === undefined || typeof query.pageToken === 'string')
+  );
+}
+
+function isPendingPlace(value: unknown): value is PendingPlace {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  if (!isOptionalIndex(entry.twin) || typeof entry.place !== 'object' || entry.place === null) return false;
+  const place = entry.place as Record<string, unknown>;
+  return (
+    isPlaceId(place.place_id) &&
+    typeof place.name === 'string' &&
+    typeof place.formatted_address === 'string' &&
+    typeof place.geometry === 'object' && place.geometry !== null &&
+    isLocation((place.geometry as Record<string, unknown>).location) &&
+    Array.isArray(place.types)
+  );
+}
+
+function isSearchCursor(value: unknown): value is SearchCursor {
+  if (typeof value !== 'object' || value === null) return false;
+  const cursor = value as Record<string, unknown>;
+  return (
+    typeof cursor.dish === 'string' &&
+    cursor.dish.trim().length > 0 &&
+    (cursor.restaurant === null || isSourcePlace(cursor.restaurant)) &&
+    isLocation(cursor.origin) &&
+    isNumber(cursor.radius) &&
+    (cursor.mode === 'standard' || cursor.mode === 'flavor-twins') &&
+    isNumber(cursor.maxBranchesPerChain) &&
+    (cursor.dishProfile === null || isDishProfile(cursor.dishProfile)) &&
+    Array.isArray(cursor.flavorTwins) && cursor.flavorTwins.every(isFlavorTwin) &&
+    Array.isArray(cursor.queries) && cursor.queries.every(isPendingQuery) &&
+    Array.isArray(cursor.pending) && cursor.pending.every(isPendingPlace) &&
+    Array.isArray(cursor.seen) && cursor.seen.every(isPlaceId) &&
+    typeof cursor.shownPerChain === 'object' && cursor.shownPerChain !== null &&
+    Object.values(cursor.shownPerChain).every(isNumber) &&
+    isNumber(cursor.expansions) &&
+    isNumber(cursor.page)
+  );
+}
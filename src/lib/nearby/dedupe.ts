@@ -0,0 +1,121 @@
+import { GooglePlace } from '@/lib/places';
+import { withinEditDistance } from '@/lib/text';
+
+// Where the user had the dish. `placeId` comes from autocomplete; typed-in
+// places only have a name and maybe an address.
+export interface SourcePlace {
+  name: string;
+  address: string;
+  placeId?: string;
+}
+
+// Another branch of a chain that was collapsed into the one we kept
+export interface OtherLocation {
+  placeId: string;
+  name: string;
+  address: string;
+  location: { lat: number; lng: number };
+  rating?: number;
+}
+
+export const DEFAULT_BRANCHES_PER_CHAIN = 1;
+export const MAX_BRANCHES_PER_CHAIN = 5;
+
+const UNSPECIFIED = 'Address not specified';
+const NAME_STOPWORDS = new Set(['the', 'restaurant', 'cafe', 'and']);
+
+// "The Hot Hen Chicken Shack - North Loop" -> ["hot", "hen", "chicken", "shack"]:
+// branch suffixes after a dash, pipe, "@" or in parentheses are not part of the brand
+function brandTokens(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+[-–—|@]\s+.*$/, '')
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !NAME_STOPWORDS.has(token));
+}
+
+function tokensMatch(a: string, b: string) {
+  return a === b || (Math.min(a.length, b.length) >= 5 && withinEditDistance(a, b, 1));
+}
+
+// Same brand: identical tokens (tolerating a typo in long words), or a name of
+// two words or more that the other one starts with ("Hattie B's" / "Hattie B's Hot Chicken").
+// Substring matches are not enough: "Chicken" must not match "Hot Hen Chicken Shack".
+export function namesMatch(a: string, b: string) {
+  const [shorter, longer] = [brandTokens(a), brandTokens(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return false;
+  if (shorter.length === longer.length) return shorter.every((token, index) => tokensMatch(token, longer[index]));
+  return shorter.length >= 2 && shorter.every((token, index) => tokensMatch(token, longer[index]));
+}
+
+// The street line decides: same building number and a shared street word
+function addressesMatch(a: string, b: string) {
+  const street = (address: string) => address.split(',')[0].toLowerCase();
+  const number = (line: string) => line.match(/\d+/)?.[0];
+  const words = (line: string) => new Set(line.split(/[^a-z]+/).filter(word => word.length >= 3));
+
+  const [streetA, streetB] = [street(a), street(b)];
+  if (!number(streetA) || !number(streetB)) return true;
+  if (number(streetA) !== number(streetB)) return false;
+  const wordsB = words(streetB);
+  return [...words(streetA)].some(word => wordsB.has(word));
+}
+
+export function isSourcePlace(place: GooglePlace, source: SourcePlace | null | undefined) {
+  if (!source || source.name === UNSPECIFIED) return false;
+  if (source.placeId) return place.place_id === source.placeId;
+  if (!namesMatch(source.name, place.name)) return false;
+  return !source.address || source.address === UNSPECIFIED || addressesMatch(source.address, place.formatted_address);
+}
+
+export function chainKey(name: string) {
+  return brandTokens(name).join(' ');
+}
+
+// Keeps the first `maxBranches` branches of every chain, in search order, and
+// files the remaining ones under the first branch kept. `alreadyShown` counts
+// branches returned on earlier pages; those chains only get what is left.
+export function collapseChains(
+  places: GooglePlace[],
+  maxBranches = DEFAULT_BRANCHES_PER_CHAIN,
+  alreadyShown: Record<string, number> = {}
+) {
+  const kept: GooglePlace[] = [];
+  const otherLocations = new Map<string, OtherLocation[]>();
+  const firstByChain = new Map<string, GooglePlace>();
+  const keptPerChain = new Map<string, number>();
+
+  for (const place of places) {
+    const key = chainKey(place.name);
+    if (!key) {
+      kept.push(place);
+      continue;
+    }
+
+    const count = keptPerChain.get(key) ?? alreadyShown[key] ?? 0;
+    if (count < maxBranches) {
+      keptPerChain.set(key, count + 1);
+      if (!firstByChain.has(key)) firstByChain.set(key, place);
+      kept.push(place);
+      continue;
+    }
+
+    // A chain whose kept branches were all shown on earlier pages has no card to join
+    const first = firstByChain.get(key);
+    if (!first) continue;
+    otherLocations.set(first.place_id, [...(otherLocations.get(first.place_id) || []), {
+      placeId: place.place_id,
+      name: place.name,
+      address: place.formatted_address,
+      location: place.geometry.location,
+      rating: place.rating,
+    }]);
+  }
+
+  return { places: kept, otherLocations };
+}
@@ -0,0 +1,141 @@
+import {
+  extractMenuFromReviews,
+  extractTasteProfile,
+  MenuInsights,
+  NO_MENU_INSIGHTS,
+  TasteProfile,
+  UNKNOWN_TASTE_PROFILE,
+} from '@/lib/analysis/review-extraction';
+import { cached, CacheStats, hashContent } from '@/lib/cache';
+import { getLLMProvider } from '@/lib/llm';
+import { applyKnownMenuItems } from '@/lib/knowledge/store';
+import { GooglePlace, PlaceDetails, PlaceReview, PlacesProvider } from '@/lib/places';
+import { lookupIndexedRestaurant } from '@/lib/taste-index/store';
+import { StageRunner } from './runner';
+
+export interface DetailedRestaurant {
+  name: string;
+  address: string;
+  rating?: number;
+  priceLevel?: number;
+  placeId: string;
+  location: { lat: number; lng: number };
+  types: string[];
+  openNow?: boolean;
+  photos: NonNullable<GooglePlace['photos']>;
+  phone?: string;
+  website?: string;
+  editorialSummary?: string;
+  reviews: PlaceReview[];
+  menuInsights: MenuInsights;
+  tasteProfile: TasteProfile;
+}
+
+const DETAILS_TTL_MS = 24 * 60 * 60 * 1000;
+const EXTRACTION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_PHOTOS = 6;
+
+// Raw Places details, shared with anything else that needs a place's reviews
+export function getPlaceDetails(placeId: string, places: PlacesProvider, cacheStats?: CacheStats) {
+  return cached(
+    {
+      namespace: 'place-details',
+      key: `${places.name}:${placeId}`,
+      ttlMs: DETAILS_TTL_MS,
+      stats: cacheStats,
+      // A missing result would otherwise hide the place's reviews for a whole TTL
+      shouldCache: value => Boolean(value),
+    },
+    () => places.getDetails(placeId)
+  );
+}
+
+// Never fails: a place whose details or extractions time out keeps its search
+// result with empty reviews or unknown insights, and the runner records it
+export async function getRestaurantDetails(
+  place: GooglePlace,
+  places: PlacesProvider,
+  cacheStats: CacheStats,
+  runner: StageRunner
+): Promise<DetailedRestaurant> {
+  const placeIds = [place.place_id];
+  // Get restaurant details including reviews and website
+  const details = await runner.run(
+    'place-details',
+    placeIds,
+    async () => {
+      // No result at all (an expired place_id, say) degrades the place like any other failure
+      const result = await getPlaceDetails(place.place_id, places, cacheStats);
+      if (!result) throw new Error('Places returned no details');
+      return result;
+    },
+    (): PlaceDetails => ({})
+  );
+
+  // Pre-computed extractions come first; only places the index does not know are extracted live
+  const reviews = details.reviews || [];
+  const model = getLLMProvider().name;
+  const indexed = await lookupIndexedRestaurant(places.name, place.place_id, model, cacheStats);
+
+  // Live extractions are keyed by model too, and go stale as soon as the reviews change
+  const extractionKey = `${model}:${place.place_id}`;
+  const reviewsHash = hashContent(reviews.map(r => r.text));
+
+  // Extract menu items and taste descriptors from reviews
+  const [extractedInsights, tasteProfile] = indexed ? [indexed.menuInsights, indexed.tasteProfile] : await Promise.all([
+    runner.run(
+      'menu-insights',
+      placeIds,
+      () => cached(
+        {
+          namespace: 'menu-insights',
+          key: extractionKey,
+          ttlMs: EXTRACTION_TTL_MS,
+          contentHash: reviewsHash,
+          stats: cacheStats,
+          shouldCache: value => value.dishes.length > 0,
+        },
+        () => extractMenuFromReviews(reviews)
+      ),
+      () => NO_MENU_INSIGHTS
+    ),
+    runner.run(
+      'taste-profile',
+      placeIds,
+      () => cached(
+        {
+          namespace: 'taste-profile',
+          key: extractionKey,
+          ttlMs: EXTRACTION_TTL_MS,
+          contentHash: reviewsHash,
+          stats: cacheStats,
+          shouldCache: value => value.style !== 'Unknown',
+        },
+        () => extractTasteProfile(reviews, place.name)
+      ),
+      () => UNKNOWN_TASTE_PROFILE
+    ),
+  ]);
+
+  // Items corrected by hand in the knowledge base win over what the model extracted
+  const menuInsights = await applyKnownMenuItems(places.name, place.place_id, extractedInsights);
+
+  return {
+    name: place.name,
+    address: place.formatted_address,
+    rating: place.rating,
+    priceLevel: place.price_level,
+    placeId: place.place_id,
+    location: place.geometry.location,
+    types: place.types,
+    openNow: place.opening_hours?.open_now,
+    // Details carry up to ten photos; text search only has the cover photo
+    photos: (details.photos || place.photos || []).slice(0, MAX_PHOTOS),
+    phone: details.formatted_phone_number,
+    website: details.website,
+    editorialSummary: details.editorial_summary?.overview,
+    reviews,
+    menuInsights,
+    tasteProfile,
+  };
+}
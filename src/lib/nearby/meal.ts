@@ -0,0 +1,270 @@
+import { DishAvailability, intelligentDishAnalysis, UNSCORED } from '@/lib/analysis/availability';
+import { assessDietaryCompatibility, unassessedDietary } from '@/lib/analysis/dietary-assessment';
+import { analyzeDishAtRestaurant, DishProfile } from '@/lib/analysis/dish-profile';
+import { compareFlavorVectors, dishFlavorVector, FlavorMatch } from '@/lib/analysis/flavor-vector';
+import { matchMenuItems, MenuItemMatch } from '@/lib/analysis/menu-match';
+import { CacheStats } from '@/lib/cache';
+import { DietaryAssessment, DietaryRestriction, isDietaryRestriction } from '@/lib/dietary';
+import { applyKnownVerdicts, getKnownDishProfile, recordObservations } from '@/lib/knowledge/store';
+import { PlacesProvider } from '@/lib/places';
+import { applyMealFilters, matchScore, rankMealRestaurants, RankingMode, SearchFilters } from '@/lib/ranking';
+import {
+  CandidateSummary,
+  createPlaceSearch,
+  detailCandidates,
+  restaurantFlavorVector,
+  RestaurantSummary,
+  toCandidateSummary,
+  toSummary,
+  validateBranchLimit,
+  validateSearchOptions,
+} from './pipeline';
+import { collapseChains, isSourcePlace, OtherLocation, SourcePlace } from './dedupe';
+import { createStageRunner, StageDegradation } from './runner';
+
+// One favorite in a group meal: the dish and, optionally, where someone had it
+export interface MealDish {
+  dish: string;
+  restaurant?: SourcePlace | null;
+}
+
+export interface MealSearchInput {
+  dishes: MealDish[];
+  latitude: number;
+  longitude: number;
+  radius: number;
+  filters?: SearchFilters;
+  ranking?: RankingMode;
+  dietary?: DietaryRestriction[];
+  maxBranchesPerChain?: number;
+}
+
+export interface DishMatch {
+  dish: string;
+  dishAvailability: DishAvailability;
+  flavorMatch: FlavorMatch | null;
+  closestMenuItems: MenuItemMatch[];
+}
+
+export interface MealRestaurantResult extends RestaurantSummary {
+  // One entry per requested dish, in request order
+  dishMatches: DishMatch[];
+  // How many of the dishes the place likely serves, exactly or as something similar
+  coverage: number;
+  // 0-100, the average per-dish match score
+  combinedScore: number;
+  dietary?: DietaryAssessment;
+  otherLocations?: OtherLocation[];
+}
+
+export interface MealSearchResponse {
+  restaurants: MealRestaurantResult[];
+  dishes: Array<{
+    dish: string;
+    sourceRestaurant: string | null;
+    dishProfile: Omit<DishProfile, 'analysis'> | null;
+  }>;
+  searchLocation: string;
+  searchRadius: number;
+  filteredOutCount?: number;
+  // Stages that timed out or failed; their places are still listed, with less data
+  degraded: StageDegradation[];
+  error?: string;
+  debug: { cache: CacheStats };
+}
+
+export type MealSearchEvent =
+  | { type: 'dish-profiles'; dishProfiles: Array<DishProfile | null> }
+  | { type: 'candidates'; candidates: CandidateSummary[] }
+  | { type: 'restaurant'; restaurant: RestaurantSummary }
+  | { type: 'result'; result: MealSearchResponse };
+
+export const MIN_MEAL_DISHES = 2;
+export const MAX_MEAL_DISHES = 4;
+const MAX_CANDIDATES = 8;
+
+function isMealDish(value: unknown): value is MealDish {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.dish !== 'string' || !entry.dish.trim()) return false;
+  if (entry.restaurant === undefined || entry.restaurant === null) return true;
+  const restaurant = entry.restaurant as Record<string, unknown>;
+  return (
+    typeof restaurant.name === 'string' &&
+    typeof restaurant.address === 'string' &&
+    (restaurant.placeId === undefined || typeof restaurant.placeId === 'string')
+  );
+}
+
+// Returns an error message for the client, or null when the body is usable
+export function validateMealRequest(body: Partial<MealSearchInput> & { mode?: string }): string | null {
+  if (!Array.isArray(body.dishes) || body.dishes.length < MIN_MEAL_DISHES || body.dishes.length > MAX_MEAL_DISHES) {
+    return `A meal search needs between ${MIN_MEAL_DISHES} and ${MAX_MEAL_DISHES} dishes`;
+  }
+  if (!body.dishes.every(isMealDish)) return 'Every meal dish needs a name';
+  if (!body.latitude || !body.longitude) return 'Location is required';
+  if (body.mode && body.mode !== 'standard') return 'Flavor twins are not available for meal searches';
+  const branchError = validateBranchLimit(body.maxBranchesPerChain);
+  if (branchError) return branchError;
+  const optionsError = validateSearchOptions(body);
+  if (optionsError) return optionsError;
+  if (body.dietary && (!Array.isArray(body.dietary) || !body.dietary.every(isDietaryRestriction))) {
+    return 'Dietary needs must be a list of known restrictions';
+  }
+  return null;
+}
+
+function isCovered(availability: DishAvailability) {
+  return availability.status === 'scored' && (availability.hasExactDish || availability.hasSimilarDish);
+}
+
+// Scores every candidate restaurant against each dish, then ranks by how many
+// of the dishes a place covers and how well it matches them overall.
+export async function runMealSearch(
+  input: MealSearchInput,
+  places: PlacesProvider,
+  onEvent: (event: MealSearchEvent) => void = () => {}
+): Promise<MealSearchResponse> {
+  const { latitude, longitude, filters = {}, ranking = 'best-match', dietary = [], maxBranchesPerChain } = input;
+  const dishes = input.dishes.map(entry => ({ dish: entry.dish.trim(), restaurant: entry.restaurant || null }));
+  const radius = filters.maxDistance ? Math.min(filters.maxDistance, input.radius) : input.radius;
+  const userLocation = `${latitude}, ${longitude}`;
+  const runner = createStageRunner();
+
+  // Known profiles are used as in a single-dish search; a dish without any is searched for by name alone
+  const dishProfiles = await Promise.all(dishes.map(async ({ dish, restaurant }) => {
+    const known = await getKnownDishProfile(dish);
+    if (known?.source === 'manual' || !restaurant || restaurant.name === 'Address not specified') return known?.profile ?? null;
+    return runner.run('dish-profile', [], () => analyzeDishAtRestaurant(dish, restaurant.name), () => known?.profile ?? null);
+  }));
+  onEvent({ type: 'dish-profiles', dishProfiles });
+
+  // The same queries as a single-dish search, for every dish
+  const cuisines = [...new Set(dishProfiles.map(profile => profile?.cuisineType).filter((cuisine): cuisine is string => Boolean(cuisine)))];
+  const searchQueries = [
+    ...dishes.flatMap(({ dish }) => [`"${dish}" restaurant`, `${dish} food`]),
+    ...cuisines.map(cuisine => `${cuisine} restaurant`),
+    'restaurant',
+  ];
+  const search = createPlaceSearch(places, { lat: latitude, lng: longitude }, radius, runner);
+  const allPlaces = (await Promise.all(searchQueries.map(search))).flat();
+
+  const chains = collapseChains(allPlaces.filter(
+    (place, index, self) =>
+      index === self.findIndex((p) => p.place_id === place.place_id) &&
+      !dishes.some(({ restaurant }) => isSourcePlace(place, restaurant))
+  ), maxBranchesPerChain);
+  const candidatePlaces = chains.places.slice(0, MAX_CANDIDATES);
+  onEvent({ type: 'candidates', candidates: candidatePlaces.map(toCandidateSummary) });
+
+  const cacheStats: CacheStats = {};
+  const restaurants = await detailCandidates(
+    candidatePlaces,
+    places,
+    cacheStats,
+    runner,
+    restaurant => onEvent({ type: 'restaurant', restaurant })
+  );
+
+  const dishSummaries = dishes.map(({ dish, restaurant }, index) => {
+    const profile = dishProfiles[index];
+    return {
+      dish,
+      sourceRestaurant: restaurant?.name || null,
+      dishProfile: profile ? { cuisineType: profile.cuisineType, flavorProfile: profile.flavorProfile, cookingStyle: profile.cookingStyle } : null,
+    };
+  });
+
+  if (restaurants.length === 0) {
+    const result: MealSearchResponse = {
+      restaurants: [],
+      dishes: dishSummaries,
+      searchLocation: userLocation,
+      searchRadius: radius,
+      degraded: runner.degraded,
+      error: 'No restaurants found with sufficient data for analysis',
+      debug: { cache: cacheStats },
+    };
+    onEvent({ type: 'result', result });
+    return result;
+  }
+
+  // Each dish gets its own semantic match and availability pass over the same restaurants
+  const placeIds = restaurants.map(restaurant => restaurant.placeId);
+  const [perDish, dietaryResults] = await Promise.all([
+    Promise.all(dishes.map(async ({ dish }, dishIndex) => {
+      const closestMenuItems = await runner.run(
+        'menu-match',
+        placeIds,
+        () => matchMenuItems(dish, restaurants),
+        (): MenuItemMatch[][] => restaurants.map(() => [])
+      );
+      const modelVerdicts = await runner.run(
+        'availability',
+        placeIds,
+        () => intelligentDishAnalysis(
+          restaurants.map((restaurant, index) => ({ ...restaurant, closestMenuItems: closestMenuItems[index] })),
+          dish,
+          dishProfiles[dishIndex],
+          dietary
+        ),
+        () => restaurants.map(() => UNSCORED)
+      );
+      const availability = await applyKnownVerdicts(places.name, dish, placeIds, modelVerdicts);
+      return { closestMenuItems, availability, vector: dishFlavorVector(dish, dishProfiles[dishIndex]) };
+    })),
+    runner.run(
+      'dietary',
+      placeIds,
+      () => assessDietaryCompatibility(restaurants, dietary, dishes.map(({ dish }) => dish)),
+      () => unassessedDietary(restaurants, dietary, dishes.map(({ dish }) => dish))
+    ),
+  ]);
+
+  const results: MealRestaurantResult[] = restaurants.map((restaurant, index) => {
+    const restaurantVector = restaurantFlavorVector(restaurant);
+    const otherLocations = chains.otherLocations.get(restaurant.placeId);
+    const dishMatches = dishes.map(({ dish }, dishIndex) => ({
+      dish,
+      dishAvailability: perDish[dishIndex].availability[index],
+      flavorMatch: compareFlavorVectors(perDish[dishIndex].vector, restaurantVector),
+      closestMenuItems: perDish[dishIndex].closestMenuItems[index],
+    }));
+
+    return {
+      ...toSummary(restaurant),
+      dishMatches,
+      coverage: dishMatches.filter(match => isCovered(match.dishAvailability)).length,
+      combinedScore: Math.round(
+        dishMatches.reduce((sum, match) => sum + matchScore(match), 0) / dishMatches.length
+      ),
+      ...(dietaryResults[index] ? { dietary: dietaryResults[index] } : {}),
+      ...(otherLocations ? { otherLocations } : {}),
+    };
+  });
+
+  // Recorded in the background, so the size of the knowledge base never slows a search down
+  void recordObservations({
+    placesProvider: places.name,
+    dishes: dishes.map(({ dish, restaurant }, index) => ({ dish, profile: dishProfiles[index], sourceRestaurant: restaurant?.name || null })),
+    places: results.map(result => ({
+      ...result,
+      verdicts: result.dishMatches.map(({ dish, dishAvailability }) => ({ dish, availability: dishAvailability })),
+    })),
+  }).catch(error => console.warn('Could not record search knowledge:', error));
+
+  const origin = { lat: latitude, lng: longitude };
+  const rankedResults = rankMealRestaurants(applyMealFilters(results, filters, origin), ranking, origin);
+
+  const result: MealSearchResponse = {
+    restaurants: rankedResults,
+    dishes: dishSummaries,
+    searchLocation: userLocation,
+    searchRadius: radius,
+    filteredOutCount: results.length - rankedResults.length,
+    degraded: runner.degraded,
+    debug: { cache: cacheStats },
+  };
+  onEvent({ type: 'result', result });
+  return result;
+}
@@ -0,0 +1,609 @@
+import { DishAvailability, intelligentDishAnalysis, UNSCORED } from '@/lib/analysis/availability';
+import { assessDietaryCompatibility, unassessedDietary } from '@/lib/analysis/dietary-assessment';
+import { analyzeDishAtRestaurant, DishProfile, isDishProfile } from '@/lib/analysis/dish-profile';
+import { compareFlavorVectors, dishFlavorVector, FlavorMatch, FlavorVector, flavorVectorFromText } from '@/lib/analysis/flavor-vector';
+import { FlavorTwin, generateFlavorTwins } from '@/lib/analysis/flavor-twins';
+import { matchMenuItems, MenuItemMatch } from '@/lib/analysis/menu-match';
+import { CacheStats } from '@/lib/cache';
+import { DietaryAssessment, DietaryRestriction, isDietaryRestriction } from '@/lib/dietary';
+import { applyKnownVerdicts, getKnownDishProfile, recordObservations } from '@/lib/knowledge/store';
+import { GooglePlace, PlacesProvider, TextSearchPage } from '@/lib/places';
+import { applyFilters, rankRestaurants, RankingMode, RankingWeights, SearchFilters } from '@/lib/ranking';
+import { decodeCursor, encodeCursor, PendingQuery, SearchCursor } from './cursor';
+import {
+  chainKey,
+  collapseChains,
+  DEFAULT_BRANCHES_PER_CHAIN,
+  isSourcePlace,
+  MAX_BRANCHES_PER_CHAIN,
+  OtherLocation,
+  SourcePlace,
+} from './dedupe';
+import { DetailedRestaurant, getRestaurantDetails } from './details';
+import { createStageRunner, StageDegradation, StageRunner } from './runner';
+
+// `flavor-twins` also searches for dishes from other cuisines with a similar flavor profile
+export type SearchMode = 'standard' | 'flavor-twins';
+
+export interface NearbySearchInput {
+  dish: string;
+  restaurant?: SourcePlace | null;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  filters?: SearchFilters;
+  ranking?: RankingMode;
+  weights?: RankingWeights;
+  // Supplied when the dish was identified from a photo; skips the source analysis
+  dishProfile?: DishProfile | null;
+  dietary?: DietaryRestriction[];
+  mode?: SearchMode;
+  // Branches of the same chain kept as separate results; the rest are listed under the first
+  maxBranchesPerChain?: number;
+  // `nextCursor` from an earlier response: continues that search with the next page.
+  // Dish, restaurant, location, radius, mode, profile and branch limit then come from it.
+  cursor?: string;
+}
+
+export type RestaurantSummary = Omit<DetailedRestaurant, 'reviews' | 'editorialSummary'>;
+
+export interface RestaurantResult extends RestaurantSummary {
+  dishAvailability: DishAvailability;
+  flavorMatch: FlavorMatch | null;
+  closestMenuItems: MenuItemMatch[];
+  // Only present when the request declared dietary needs
+  dietary?: DietaryAssessment;
+  // `flavor-twin` places were found through a twin dish and are not known to serve the original
+  matchGroup: 'same-dish' | 'flavor-twin';
+  flavorTwin?: FlavorTwin;
+  // Other branches of the same chain that were collapsed into this result
+  otherLocations?: OtherLocation[];
+}
+
+export interface NearbySearchResponse {
+  restaurants: RestaurantResult[];
+  searchLocation: string;
+  searchRadius: number;
+  originalDish: string;
+  sourceRestaurant?: string | null;
+  filteredOutCount?: number;
+  unscoredCount?: number;
+  dishProfile?: {
+    cuisineType: string;
+    flavorProfile: string[];
+    cookingStyle: string;
+    flavorVector: FlavorVector;
+  } | null;
+  flavorTwins?: FlavorTwin[];
+  // 1 for a new search, counting up with every cursor
+  page: number;
+  // How many times the radius and query set were widened so far
+  expansions: number;
+  // Pass back as `cursor` for more results; null once the search is exhausted
+  nextCursor: string | null;
+  // Stages that timed out or failed on this page; their places are still listed, with less data
+  degraded: StageDegradation[];
+  error?: string;
+  debug: { cache: CacheStats };
+}
+
+// What the client can show about a place before its details are fetched
+export type CandidateSummary = Pick<RestaurantSummary, 'name' | 'address' | 'rating' | 'priceLevel' | 'placeId' | 'location' | 'types' | 'openNow' | 'photos'>;
+
+// Stage-by-stage progress, in the order the pipeline produces it
+export type NearbySearchEvent =
+  | { type: 'dish-profile'; dishProfile: DishProfile | null }
+  | { type: 'flavor-twins'; flavorTwins: FlavorTwin[] }
+  | { type: 'candidates'; candidates: CandidateSummary[] }
+  | { type: 'restaurant'; restaurant: RestaurantSummary }
+  | { type: 'result'; result: NearbySearchResponse };
+
+const RANKING_MODES: RankingMode[] = ['best-match', 'closest', 'best-rated', 'blended'];
+const SEARCH_MODES: SearchMode[] = ['standard', 'flavor-twins'];
+// Places detailed and scored per page
+const MAX_CANDIDATES = 8;
+// Candidate slots kept for flavor-twin places, so same-dish results cannot crowd them out
+const MAX_TWIN_CANDIDATES = 4;
+// Fewer places than this serving the dish or something similar triggers an expansion
+const MIN_MATCHES_PER_PAGE = 3;
+const MAX_EXPANSIONS = 2;
+// The largest radius the Places API accepts
+const MAX_SEARCH_RADIUS = 50000;
+// Bounds the result pages fetched for one page of candidates
+const MAX_FETCH_ROUNDS = 4;
+// Search budget a second, expanded page needs to be worth starting
+const MIN_EXPANSION_BUDGET_MS = 12000;
+
+// Returns an error message for the client, or null when the body is usable
+export function validateNearbyRequest(body: Partial<NearbySearchInput>): string | null {
+  if (body.cursor !== undefined) {
+    if (!decodeCursor(body.cursor)) return 'Search cursor is malformed';
+  } else {
+    if (!body.dish) return 'Dish name is required';
+    if (!body.latitude || !body.longitude) return 'Location is required';
+  }
+  if (body.ranking && !RANKING_MODES.includes(body.ranking)) {
+    return `Ranking must be one of: ${RANKING_MODES.join(', ')}`;
+  }
+  if (body.mode && !SEARCH_MODES.includes(body.mode)) {
+    return `Mode must be one of: ${SEARCH_MODES.join(', ')}`;
+  }
+  const branchError = validateBranchLimit(body.maxBranchesPerChain);
+  if (branchError) return branchError;
+  const optionsError = validateSearchOptions(body);
+  if (optionsError) return optionsError;
+  if (body.dishProfile && !isDishProfile(body.dishProfile)) return 'Dish profile is malformed';
+  if (body.dietary && (!Array.isArray(body.dietary) || !body.dietary.every(isDietaryRestriction))) {
+    return 'Dietary needs must be a list of known restrictions';
+  }
+  return null;
+}
+
+export function validateBranchLimit(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_BRANCHES_PER_CHAIN) {
+    return `Branches per chain must be a whole number from 1 to ${MAX_BRANCHES_PER_CHAIN}`;
+  }
+  return null;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Radius, filters and weights go straight into the Places query, the ranking
+// and the next-page cursor, so anything but plain numbers and flags is refused
+export function validateSearchOptions({ radius, filters, weights }: { radius?: unknown; filters?: unknown; weights?: unknown }): string | null {
+  if (radius !== undefined && (!isFiniteNumber(radius) || radius <= 0 || radius > MAX_SEARCH_RADIUS)) {
+    return `Radius must be a number of meters up to ${MAX_SEARCH_RADIUS}`;
+  }
+
+  if (filters !== undefined) {
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) return 'Filters must be an object';
+    const { maxDistance, minPrice, maxPrice, minRating, exactOnly, openNow, hideIncompatible } = filters as Record<string, unknown>;
+    if (maxDistance !== undefined && (!isFiniteNumber(maxDistance) || maxDistance <= 0)) {
+      return 'Maximum distance must be a positive number of meters';
+    }
+    for (const price of [minPrice, maxPrice]) {
+      if (price !== undefined && (!Number.isInteger(price) || (price as number) < 0 || (price as number) > 4)) {
+        return 'Price levels must be whole numbers from 0 to 4';
+      }
+    }
+    if (minRating !== undefined && (!isFiniteNumber(minRating) || minRating < 0 || minRating > 5)) {
+      return 'Minimum rating must be a number from 0 to 5';
+    }
+    if ([exactOnly, openNow, hideIncompatible].some(flag => flag !== undefined && typeof flag !== 'boolean')) {
+      return 'Filter flags must be true or false';
+    }
+  }
+
+  if (weights !== undefined) {
+    if (typeof weights !== 'object' || weights === null) return 'Weights must be an object';
+    const { match, distance, rating } = weights as Record<string, unknown>;
+    if (![match, distance, rating].every(weight => isFiniteNumber(weight) && weight >= 0)) {
+      return 'Weights need a non-negative match, distance and rating';
+    }
+  }
+  return null;
+}
+
+export function toSummary(restaurant: DetailedRestaurant): RestaurantSummary {
+  return {
+    name: restaurant.name,
+    address: restaurant.address,
+    rating: restaurant.rating,
+    priceLevel: restaurant.priceLevel,
+    placeId: restaurant.placeId,
+    location: restaurant.location,
+    types: restaurant.types,
+    openNow: restaurant.openNow,
+    photos: restaurant.photos,
+    phone: restaurant.phone,
+    website: restaurant.website,
+    menuInsights: restaurant.menuInsights,
+    tasteProfile: restaurant.tasteProfile,
+  };
+}
+
+export function toCandidateSummary(place: GooglePlace): CandidateSummary {
+  return {
+    name: place.name,
+    address: place.formatted_address,
+    rating: place.rating,
+    priceLevel: place.price_level,
+    placeId: place.place_id,
+    location: place.geometry.location,
+    types: place.types,
+    openNow: place.opening_hours?.open_now,
+    photos: place.photos ? place.photos.slice(0, 1) : [],
+  };
+}
+
+// First page of a text search around the user, as meal searches use it; a
+// failed query just contributes no places
+export function createPlaceSearch(
+  places: PlacesProvider,
+  location: { lat: number; lng: number },
+  radius: number,
+  runner: StageRunner
+) {
+  return async (query: string) => {
+    const { results } = await runner.run('text-search', [], () => places.textSearch({ query, location, radius }), () => ({ results: [] }));
+    return results.slice(0, 5); // Limit to 5 per search
+  };
+}
+
+// Fetches details for every candidate, reporting each as soon as it is ready.
+// The runner bounds how many lookups are in flight at once.
+export async function detailCandidates(
+  candidatePlaces: GooglePlace[],
+  places: PlacesProvider,
+  cacheStats: CacheStats,
+  runner: StageRunner,
+  onRestaurant: (restaurant: RestaurantSummary) => void
+): Promise<DetailedRestaurant[]> {
+  return Promise.all(
+    candidatePlaces.map(async (place) => {
+      const details = await getRestaurantDetails(place, places, cacheStats, runner);
+      onRestaurant(toSummary(details));
+      return details;
+    })
+  );
+}
+
+export function restaurantFlavorVector(restaurant: DetailedRestaurant): FlavorVector {
+  return flavorVectorFromText(
+    (restaurant.tasteProfile.flavors || []).join(' '),
+    (restaurant.tasteProfile.textures || []).join(' '),
+    restaurant.tasteProfile.style || '',
+    (restaurant.tasteProfile.specialties || []).join(' '),
+    restaurant.menuInsights.dishes.join(' ')
+  );
+}
+
+export async function runNearbySearch(
+  input: NearbySearchInput,
+  places: PlacesProvider,
+  onEvent: (event: NearbySearchEvent) => void = () => {}
+): Promise<NearbySearchResponse> {
+  const { filters = {}, ranking = 'best-match', weights, dietary = [] } = input;
+  const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+  const runner = createStageRunner();
+  const state = cursor || await startSearch(input, runner, onEvent);
+  const { dish: originalDish, dishProfile, origin } = state;
+  const userLocation = `${origin.lat}, ${origin.lng}`;
+  // Expanding past the distance filter would only find places it then removes
+  const maxRadius = Math.min(filters.maxDistance || MAX_SEARCH_RADIUS, MAX_SEARCH_RADIUS);
+  const sourceFlavorVector = dishFlavorVector(originalDish, dishProfile);
+  const cacheStats: CacheStats = {};
+  const scorePage = () => searchPage(state, places, { dietary, sourceFlavorVector, cacheStats, maxRadius, runner }, onEvent);
+
+  // Too few places serve the dish or something like it: widen the search and score another page
+  // A second page needs most of the budget, or its stages would only degrade
+  let restaurantResults = await scorePage();
+  if (
+    countMatches(restaurantResults) < MIN_MATCHES_PER_PAGE &&
+    state.expansions < MAX_EXPANSIONS &&
+    runner.remainingMs() >= MIN_EXPANSION_BUDGET_MS
+  ) {
+    expandSearch(state, maxRadius);
+    restaurantResults = [...restaurantResults, ...await scorePage()];
+  }
+  state.page++;
+
+  // Recorded in the background, so the size of the knowledge base never slows a search down
+  void recordObservations({
+    placesProvider: places.name,
+    dishes: [{ dish: originalDish, profile: dishProfile, sourceRestaurant: state.restaurant?.name || null }],
+    places: restaurantResults.map(result => ({ ...result, verdicts: [{ dish: originalDish, availability: result.dishAvailability }] })),
+  }).catch(error => console.warn('Could not record search knowledge:', error));
+
+  // Best match by default: places serving the dish, then flavor similarity, then availability confidence, then rating
+  const rankedResults = rankRestaurants(
+    applyFilters(restaurantResults, filters, origin),
+    ranking,
+    origin,
+    weights,
+    state.radius
+  );
+
+  const hasMore = state.pending.length > 0 || state.queries.length > 0 || state.expansions < MAX_EXPANSIONS;
+  const result: NearbySearchResponse = {
+    restaurants: rankedResults,
+    searchLocation: userLocation,
+    searchRadius: state.radius,
+    originalDish,
+    sourceRestaurant: state.restaurant?.name || null,
+    filteredOutCount: restaurantResults.length - rankedResults.length,
+    unscoredCount: restaurantResults.filter(r => r.dishAvailability.status === 'unscored').length,
+    dishProfile: dishProfile ? {
+      cuisineType: dishProfile.cuisineType,
+      flavorProfile: dishProfile.flavorProfile,
+      cookingStyle: dishProfile.cookingStyle,
+      flavorVector: sourceFlavorVector,
+    } : null,
+    ...(state.mode === 'flavor-twins' ? { flavorTwins: state.flavorTwins } : {}),
+    page: state.page,
+    expansions: state.expansions,
+    nextCursor: hasMore ? encodeCursor(state) : null,
+    degraded: runner.degraded,
+    ...(restaurantResults.length === 0 ? { error: 'No restaurants found with sufficient data for analysis' } : {}),
+    debug: { cache: cacheStats },
+  };
+  onEvent({ type: 'result', result });
+  return result;
+}
+
+// The first page: analyze the source dish, find its flavor twins, and set up the queries
+async function startSearch(
+  input: NearbySearchInput,
+  runner: StageRunner,
+  onEvent: (event: NearbySearchEvent) => void
+): Promise<SearchCursor> {
+  const { dish, restaurant, latitude, longitude, filters = {}, mode = 'standard' } = input;
+  const sourceRestaurant = restaurant || null;
+
+  // If we have a source restaurant, first analyze that dish at that restaurant.
+  // A profile corrected by hand is used instead, and one an earlier search
+  // learned stands in when there is nothing to analyze or the analysis fails.
+  let dishProfile: DishProfile | null = input.dishProfile || null;
+  if (!dishProfile) {
+    const known = await getKnownDishProfile(dish);
+    if (known?.source !== 'manual' && sourceRestaurant && sourceRestaurant.name !== 'Address not specified') {
+      dishProfile = await runner.run('dish-profile', [], () => analyzeDishAtRestaurant(dish, sourceRestaurant.name), () => known?.profile ?? null);
+    } else {
+      dishProfile = known?.profile ?? null;
+    }
+  }
+  onEvent({ type: 'dish-profile', dishProfile });
+
+  // Dishes from other cuisines that taste alike, searched for alongside the dish
+  // itself; without them we search for the dish only
+  let flavorTwins: FlavorTwin[] = [];
+  if (mode === 'flavor-twins') {
+    flavorTwins = await runner.run('flavor-twins', [], () => generateFlavorTwins(dish, dishProfile), () => []);
+    onEvent({ type: 'flavor-twins', flavorTwins });
+  }
+
+  // The catch-all 'restaurant' query is kept for the last expansion, so it
+  // no longer pads out areas where the dish itself is rare
+  const queries: PendingQuery[] = [
+    ...dishQueries(dish, dishProfile).map(query => ({ query })),
+    ...flavorTwins.map((twin, index) => ({ query: `"${twin.dish}" restaurant`, twin: index })),
+  ];
+
+  return {
+    dish,
+    restaurant: sourceRestaurant,
+    origin: { lat: latitude, lng: longitude },
+    // A distance filter tighter than the radius narrows the search itself
+    radius: Math.min(filters.maxDistance || input.radius, input.radius, MAX_SEARCH_RADIUS),
+    mode,
+    maxBranchesPerChain: input.maxBranchesPerChain || DEFAULT_BRANCHES_PER_CHAIN,
+    dishProfile,
+    flavorTwins,
+    queries,
+    pending: [],
+    seen: [],
+    shownPerChain: {},
+    expansions: 0,
+    page: 0,
+  };
+}
+
+function dishQueries(dish: string, dishProfile: DishProfile | null) {
+  return [
+    `"${dish}" restaurant`,
+    `${dish} food`,
+    ...(dishProfile?.cuisineType ? [`${dishProfile.cuisineType} restaurant`] : []),
+  ];
+}
+
+// Each expansion doubles the radius, up to `maxRadius`, and broadens the
+// queries: first the dish's own queries over the wider area, then any restaurant.
+function expandSearch(state: SearchCursor, maxRadius: number) {
+  const radius = Math.min(state.radius * 2, maxRadius);
+  const widened = radius > state.radius;
+  state.radius = radius;
+  state.expansions++;
+
+  const queries = state.expansions === 1
+    ? [...(widened ? dishQueries(state.dish, state.dishProfile) : []), ...(state.dishProfile ? [`${state.dishProfile.cuisineType} food`] : [])]
+    : ['restaurant'];
+  for (const query of queries) {
+    if (!state.queries.some(pending => pending.query === query && !pending.pageToken)) state.queries.push({ query });
+  }
+}
+
+// Fetches one more result page from every query that has one until a page's
+// worth of candidates is waiting. With nothing at all left, the search widens instead.
+async function fillPending(state: SearchCursor, places: PlacesProvider, maxRadius: number, runner: StageRunner) {
+  for (let round = 0; round < MAX_FETCH_ROUNDS && state.pending.length < MAX_CANDIDATES; round++) {
+    if (state.queries.length === 0) {
+      if (state.pending.length > 0 || state.expansions >= MAX_EXPANSIONS) return;
+      expandSearch(state, maxRadius);
+    }
+
+    const queries = state.queries;
+    const pages = await Promise.all(queries.map(({ query, pageToken }) => runner.run(
+      'text-search',
+      [],
+      () => places.textSearch({ query, location: state.origin, radius: state.radius, pageToken }),
+      (): TextSearchPage => ({ results: [] })
+    )));
+
+    state.queries = [];
+    pages.forEach((page, index) => {
+      const { twin } = queries[index];
+      if (page.nextPageToken) state.queries.push({ ...queries[index], pageToken: page.nextPageToken });
+      for (const place of page.results) addPending(state, place, twin);
+    });
+  }
+}
+
+// Skips the source restaurant and anything already shown; a twin query that
+// finds a place the dish queries found first still marks it as a twin place
+function addPending(state: SearchCursor, place: GooglePlace, twin: number | undefined) {
+  if (state.seen.includes(place.place_id) || isSourcePlace(place, state.restaurant)) return;
+  const existing = state.pending.find(entry => entry.place.place_id === place.place_id);
+  if (existing) {
+    if (existing.twin === undefined && twin !== undefined) existing.twin = twin;
+    return;
+  }
+  state.pending.push({ place: compactPlace(place), ...(twin !== undefined ? { twin } : {}) });
+}
+
+// Only what the details step reads, to keep the cursor small
+function compactPlace(place: GooglePlace): GooglePlace {
+  return {
+    name: place.name,
+    formatted_address: place.formatted_address,
+    rating: place.rating,
+    price_level: place.price_level,
+    place_id: place.place_id,
+    geometry: { location: place.geometry.location },
+    types: place.types,
+    opening_hours: place.opening_hours ? { open_now: place.opening_hours.open_now } : undefined,
+    photos: place.photos?.slice(0, 1),
+  };
+}
+
+interface PageContext {
+  dietary: DietaryRestriction[];
+  sourceFlavorVector: FlavorVector;
+  cacheStats: CacheStats;
+  maxRadius: number;
+  runner: StageRunner;
+}
+
+// Picks the next candidates from the pending places, then details and scores them
+async function searchPage(
+  state: SearchCursor,
+  places: PlacesProvider,
+  { dietary, sourceFlavorVector, cacheStats, maxRadius, runner }: PageContext,
+  onEvent: (event: NearbySearchEvent) => void
+): Promise<RestaurantResult[]> {
+  const { dish: originalDish, dishProfile } = state;
+  await fillPending(state, places, maxRadius, runner);
+
+  // Remember which twin led to each place, then fold extra branches of a chain into the first
+  const twinByPlaceId = new Map<string, FlavorTwin>();
+  for (const { place, twin } of state.pending) {
+    if (twin !== undefined && state.flavorTwins[twin]) twinByPlaceId.set(place.place_id, state.flavorTwins[twin]);
+  }
+  const chains = collapseChains(state.pending.map(entry => entry.place), state.maxBranchesPerChain, state.shownPerChain);
+  const candidatePlaces = selectCandidates(chains.places, twinByPlaceId);
+  markShown(state, candidatePlaces, chains.otherLocations);
+  if (candidatePlaces.length === 0) return [];
+  onEvent({ type: 'candidates', candidates: candidatePlaces.map(toCandidateSummary) });
+
+  // Get detailed restaurant information including reviews and websites
+  const filteredRestaurants = await detailCandidates(
+    candidatePlaces,
+    places,
+    cacheStats,
+    runner,
+    restaurant => onEvent({ type: 'restaurant', restaurant })
+  );
+  const placeIds = filteredRestaurants.map(restaurant => restaurant.placeId);
+
+  // Semantic match of the requested dish against every review-extracted menu
+  // item; without it we continue with no semantic matches
+  const closestMenuItems = await runner.run(
+    'menu-match',
+    placeIds,
+    () => matchMenuItems(originalDish, filteredRestaurants),
+    (): MenuItemMatch[][] => filteredRestaurants.map(() => [])
+  );
+
+  // Analyze dish availability using detailed restaurant data, and dietary fit
+  // alongside it. The places stay listed as unscored if the model gives no answer.
+  const [modelVerdicts, dietaryResults] = await Promise.all([
+    runner.run(
+      'availability',
+      placeIds,
+      () => intelligentDishAnalysis(
+        filteredRestaurants.map((restaurant, index) => ({
+          ...restaurant,
+          closestMenuItems: closestMenuItems[index],
+          flavorTwin: twinByPlaceId.get(restaurant.placeId),
+        })),
+        originalDish,
+        dishProfile,
+        dietary
+      ),
+      () => filteredRestaurants.map(() => UNSCORED)
+    ),
+    runner.run(
+      'dietary',
+      placeIds,
+      () => assessDietaryCompatibility(filteredRestaurants, dietary, [originalDish]),
+      () => unassessedDietary(filteredRestaurants, dietary, [originalDish])
+    ),
+  ]);
+  const dishAvailabilityResults = await applyKnownVerdicts(places.name, originalDish, placeIds, modelVerdicts);
+
+  // Build final results with enhanced data
+  return filteredRestaurants.map((restaurant, index) => {
+    const dishAvailability = dishAvailabilityResults[index];
+    const flavorMatch = compareFlavorVectors(sourceFlavorVector, restaurantFlavorVector(restaurant));
+    const otherLocations = chains.otherLocations.get(restaurant.placeId);
+
+    return {
+      ...toSummary(restaurant),
+      dishAvailability,
+      flavorMatch,
+      closestMenuItems: closestMenuItems[index],
+      ...(dietaryResults[index] ? { dietary: dietaryResults[index] } : {}),
+      ...matchGroup(dishAvailability, twinByPlaceId.get(restaurant.placeId)),
+      ...(otherLocations ? { otherLocations } : {}),
+    };
+  });
+}
+
+// Candidates and the branches folded into them are never offered again; neither
+// are further branches of chains that have used up their share
+function markShown(state: SearchCursor, candidatePlaces: GooglePlace[], otherLocations: Map<string, OtherLocation[]>) {
+  const shown = new Set<string>();
+  for (const place of candidatePlaces) {
+    shown.add(place.place_id);
+    for (const location of otherLocations.get(place.place_id) || []) shown.add(location.placeId);
+    const key = chainKey(place.name);
+    if (key) state.shownPerChain[key] = (state.shownPerChain[key] || 0) + 1;
+  }
+
+  state.seen.push(...shown);
+  state.pending = state.pending.filter(({ place }) => {
+    if (shown.has(place.place_id)) return false;
+    const key = chainKey(place.name);
+    return !key || (state.shownPerChain[key] || 0) < state.maxBranchesPerChain;
+  });
+}
+
+function countMatches(results: RestaurantResult[]) {
+  return results.filter(({ dishAvailability }) =>
+    dishAvailability.status === 'scored' && (dishAvailability.hasExactDish || dishAvailability.hasSimilarDish)
+  ).length;
+}
+
+// Same-dish places fill the slots twins leave unused
+function selectCandidates(places: GooglePlace[], twinByPlaceId: Map<string, FlavorTwin>) {
+  const twinPlaces = places.filter(place => twinByPlaceId.has(place.place_id)).slice(0, MAX_TWIN_CANDIDATES);
+  const sameDishPlaces = places.filter(place => !twinByPlaceId.has(place.place_id));
+  return [...sameDishPlaces.slice(0, MAX_CANDIDATES - twinPlaces.length), ...twinPlaces];
+}
+
+// A place reached through a twin still counts as serving the dish if the model says so
+function matchGroup(
+  dishAvailability: DishAvailability,
+  flavorTwin: FlavorTwin | undefined
+): Pick<RestaurantResult, 'matchGroup' | 'flavorTwin'> {
+  if (!flavorTwin || dishAvailability.hasExactDish) return { matchGroup: 'same-dish' };
+  return { matchGroup: 'flavor-twin', flavorTwin };
+}
+
+// Maps pipeline errors to the message shown to the client
+export function describeNearbyError(error: unknown) {
+  if (error instanceof Error && error.message.includes('Cohere API key')) {
+    return 'Cohere API key not configured. Please add COHERE_API_KEY to environment variables.';
+  }
+  return `API Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+}
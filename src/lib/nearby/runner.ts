@@ -0,0 +1,159 @@
+import { PlacesApiError } from '@/lib/places/errors';
+
+// Stages of a nearby or meal search that call out to Places, the LLM or the embedder
+export type StageName =
+  | 'dish-profile'
+  | 'flavor-twins'
+  | 'text-search'
+  | 'place-details'
+  | 'menu-insights'
+  | 'taste-profile'
+  | 'menu-match'
+  | 'availability'
+  | 'dietary';
+
+// A stage call that fell back instead of completing; `placeIds` is empty for
+// search-wide stages such as the dish profile
+export interface StageDegradation {
+  stage: StageName;
+  placeIds: string[];
+  reason: 'timeout' | 'failed';
+  message: string;
+}
+
+interface StageLimits {
+  // Calls of the stage in flight at once, per search
+  concurrency: number;
+  // Budget for one call, counted from when it was queued and covering its retries
+  timeoutMs: number;
+  // Extra attempts after a 429 or 5xx
+  retries: number;
+}
+
+const STAGE_LIMITS: Record<StageName, StageLimits> = {
+  'dish-profile': { concurrency: 2, timeoutMs: 8000, retries: 1 },
+  'flavor-twins': { concurrency: 1, timeoutMs: 8000, retries: 1 },
+  'text-search': { concurrency: 4, timeoutMs: 6000, retries: 2 },
+  'place-details': { concurrency: 4, timeoutMs: 6000, retries: 2 },
+  'menu-insights': { concurrency: 4, timeoutMs: 12000, retries: 1 },
+  'taste-profile': { concurrency: 4, timeoutMs: 12000, retries: 1 },
+  'menu-match': { concurrency: 2, timeoutMs: 6000, retries: 1 },
+  'availability': { concurrency: 2, timeoutMs: 12000, retries: 1 },
+  'dietary': { concurrency: 1, timeoutMs: 12000, retries: 1 },
+};
+
+// Whole-search budget that every stage deadline is capped by; leaves headroom
+// under the 30s maxDuration the nearby routes get in vercel.json
+const SEARCH_BUDGET_MS = 25000;
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_JITTER_MS = 250;
+const TIMED_OUT = Symbol('timed out');
+
+export interface StageRunner {
+  // Runs `task` within the stage's limits. When it times out or fails for good,
+  // `fallback` stands in and the places it covered are reported as degraded.
+  run<T>(stage: StageName, placeIds: string[], task: () => Promise<T>, fallback: () => T): Promise<T>;
+  // Time left of the search budget, for skipping optional work
+  remainingMs(): number;
+  degraded: StageDegradation[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Status of an axios, Cohere or fetch-style error, when it has one
+function statusOf(error: unknown) {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const { response, status, statusCode } = error as { response?: { status?: unknown }; status?: unknown; statusCode?: unknown };
+  const value = response?.status ?? statusCode ?? status;
+  return typeof value === 'number' ? value : undefined;
+}
+
+function isRetryableError(error: unknown) {
+  // Places answers quota and server trouble with HTTP 200 and a status in the body
+  if (error instanceof PlacesApiError) return error.retryable;
+  const status = statusOf(error);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  return {
+    acquire: () => new Promise<void>(resolve => {
+      if (active < concurrency) {
+        active++;
+        resolve();
+      } else {
+        waiting.push(resolve);
+      }
+    }),
+    release: () => {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    },
+  };
+}
+
+function untilDeadline<T>(promise: Promise<T>, deadline: number): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+    timer = setTimeout(() => resolve(TIMED_OUT), Math.max(0, deadline - Date.now()));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// One runner per search, so one slow search cannot starve another. A call that
+// times out is abandoned rather than cancelled and stops counting against the limit.
+// Background jobs, which no request waits on, pass an unlimited `budgetMs`.
+export function createStageRunner(budgetMs = SEARCH_BUDGET_MS): StageRunner {
+  const searchDeadline = Date.now() + budgetMs;
+  const limiters = new Map<StageName, ReturnType<typeof createLimiter>>();
+  const degraded: StageDegradation[] = [];
+
+  const degrade = <T>(stage: StageName, placeIds: string[], reason: StageDegradation['reason'], message: string, fallback: () => T) => {
+    console.warn(`Stage ${stage} degraded (${reason}) for ${placeIds.length ? placeIds.join(', ') : 'the whole search'}: ${message}`);
+    degraded.push({ stage, placeIds, reason, message });
+    return fallback();
+  };
+
+  return {
+    degraded,
+    remainingMs: () => Math.max(0, searchDeadline - Date.now()),
+    async run(stage, placeIds, task, fallback) {
+      const { concurrency, timeoutMs, retries } = STAGE_LIMITS[stage];
+      if (Date.now() >= searchDeadline) return degrade(stage, placeIds, 'timeout', 'search budget used up', fallback);
+      if (!limiters.has(stage)) limiters.set(stage, createLimiter(concurrency));
+      const limiter = limiters.get(stage)!;
+      const queuedAt = Date.now();
+      const deadline = Math.min(queuedAt + timeoutMs, searchDeadline);
+
+      const slot = limiter.acquire();
+      if (await untilDeadline(slot, deadline) === TIMED_OUT) {
+        // Hand the slot straight back once it comes through
+        slot.then(limiter.release);
+        return degrade(stage, placeIds, 'timeout', `still queued after ${Date.now() - queuedAt}ms`, fallback);
+      }
+
+      try {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const result = await untilDeadline(task(), deadline);
+            if (result === TIMED_OUT) return degrade(stage, placeIds, 'timeout', `no answer within ${Date.now() - queuedAt}ms`, fallback);
+            return result;
+          } catch (error) {
+            const delay = BACKOFF_BASE_MS * 2 ** attempt + Math.random() * BACKOFF_JITTER_MS;
+            if (attempt >= retries || !isRetryableError(error) || Date.now() + delay >= deadline) {
+              return degrade(stage, placeIds, 'failed', error instanceof Error ? error.message : String(error), fallback);
+            }
+            console.warn(`Stage ${stage} got status ${error instanceof PlacesApiError ? error.status : statusOf(error)}, retrying in ${Math.round(delay)}ms`);
+            await sleep(delay);
+          }
+        }
+      } finally {
+        limiter.release();
+      }
+    },
+  };
+}
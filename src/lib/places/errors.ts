@@ -0,0 +1,23 @@
+// Statuses Google answers with when the request worked, even if nothing matched
+const OK_STATUSES = new Set(['OK', 'ZERO_RESULTS']);
+// Quota and server hiccups that may clear up on another attempt
+const RETRYABLE_STATUSES = new Set(['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR']);
+
+// A Places payload whose status is not OK or ZERO_RESULTS, e.g. NOT_FOUND for
+// an expired place_id or REQUEST_DENIED for a bad key
+export class PlacesApiError extends Error {
+  readonly status: string;
+  readonly retryable: boolean;
+
+  constructor(status: string, message?: string) {
+    super(`Places API ${status}${message ? `: ${message}` : ''}`);
+    this.name = 'PlacesApiError';
+    this.status = status;
+    this.retryable = RETRYABLE_STATUSES.has(status);
+  }
+}
+
+export function checkPlacesStatus(payload: { status?: string; error_message?: string }) {
+  const status = payload.status || 'UNKNOWN_ERROR';
+  if (!OK_STATUSES.has(status)) throw new PlacesApiError(status, payload.error_message);
+}
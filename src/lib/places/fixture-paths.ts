@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import path from 'path';
+
+export function defaultFixturesDir() {
+  return path.join(process.cwd(), 'fixtures', 'places');
+}
+
+// "Spicy Ramen" restaurant -> spicy-ramen-restaurant
+export function querySlug(query: string) {
+  return query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'empty';
+}
+
+export function textSearchFixturePath(dir: string, query: string) {
+  return path.join(dir, 'textsearch', `${querySlug(query)}.json`);
+}
+
+// Page tokens are long and opaque, and any query can lead to them
+export function textSearchPageFixturePath(dir: string, pageToken: string) {
+  return path.join(dir, 'textsearch', 'pages', `${createHash('sha1').update(pageToken).digest('hex').slice(0, 16)}.json`);
+}
+
+export function photoFixturePath(dir: string, photoReference: string) {
+  return path.join(dir, 'photos', `${photoReference}.jpg`);
+}
+
+// Google place ids only use these characters; anything else did not come from
+// Places and must never reach a file path
+export function isPlaceId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]+$/.test(value);
+}
+
+export function detailsFixturePath(dir: string, placeId: string) {
+  if (!isPlaceId(placeId)) throw new Error(`Not a place id: ${JSON.stringify(placeId)}`);
+  return path.join(dir, 'details', `${placeId}.json`);
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  defaultFixturesDir,
+  detailsFixturePath,
+  photoFixturePath,
+  textSearchFixturePath,
+  textSearchPageFixturePath,
+} from './fixture-paths';
+import { checkPlacesStatus } from './errors';
+import { PlacesProvider, TextSearchParams } from './types';
+
+async function readPayload(filePath: string) {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+// Stand-in image for photos that were never recorded: a tinted tile whose
+// color is derived from the reference, so different photos look different.
+function placeholderPhoto(photoReference: string, maxWidth: number) {
+  let hue = 0;
+  for (const char of photoReference) hue = (hue * 31 + char.charCodeAt(0)) % 360;
+  const height = Math.round(maxWidth * 0.75);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${maxWidth}" height="${height}" viewBox="0 0 400 300">
+  <rect width="400" height="300" fill="hsl(${hue}, 55%, 45%)"/>
+  <circle cx="200" cy="150" r="70" fill="hsl(${hue}, 55%, 85%)"/>
+  <circle cx="200" cy="150" r="48" fill="hsl(${hue}, 40%, 95%)"/>
+  <text x="200" y="275" font-family="sans-serif" font-size="18" fill="#fff" text-anchor="middle">fixture photo</text>
+</svg>`;
+  return { data: Buffer.from(svg), contentType: 'image/svg+xml' };
+}
+
+// Replays raw Places API payloads recorded by the Google provider. Queries
+// without a recording of their own fall back to `textsearch/default.json`,
+// unrecorded result pages come back empty, and photos without a recording are
+// rendered as placeholders.
+export function createFixturePlacesProvider(dir = defaultFixturesDir()): PlacesProvider {
+  return {
+    name: 'fixture',
+    async textSearch({ query, pageToken }: TextSearchParams) {
+      let payload;
+      if (pageToken) {
+        try {
+          payload = await readPayload(textSearchPageFixturePath(dir, pageToken));
+        } catch {
+          return { results: [] };
+        }
+      } else {
+        try {
+          payload = await readPayload(textSearchFixturePath(dir, query));
+        } catch {
+          payload = await readPayload(path.join(dir, 'textsearch', 'default.json'));
+        }
+      }
+      checkPlacesStatus(payload);
+      return { results: payload.results || [], nextPageToken: payload.next_page_token };
+    },
+    async getDetails(placeId: string) {
+      const payload = await readPayload(detailsFixturePath(dir, placeId));
+      checkPlacesStatus(payload);
+      return payload.result;
+    },
+    async getPhoto(photoReference: string, maxWidth: number) {
+      try {
+        return { data: await fs.readFile(photoFixturePath(dir, photoReference)), contentType: 'image/jpeg' };
+      } catch {
+        return placeholderPhoto(photoReference, maxWidth);
+      }
+    },
+  };
+}
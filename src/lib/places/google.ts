@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { checkPlacesStatus } from './errors';
+import { detailsFixturePath, photoFixturePath, textSearchFixturePath, textSearchPageFixturePath } from './fixture-paths';
+import { PlacesProvider, TextSearchParams } from './types';
+
+const PLACES_API_URL = 'https://maps.googleapis.com/maps/api/place';
+// A fresh next_page_token takes a moment to become valid; until then Google answers INVALID_REQUEST
+const PAGE_TOKEN_DELAY_MS = 2000;
+const PAGE_TOKEN_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// When `recordDir` is set, every raw payload is also written in the layout the
+// fixture provider replays, so a live session can be captured for offline use.
+export function createGooglePlacesProvider(apiKey: string, recordDir?: string): PlacesProvider {
+  const record = async (filePath: string, payload: unknown) => {
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(payload, null, 2));
+    } catch (error) {
+      console.warn(`Could not record Places payload to ${filePath}:`, error);
+    }
+  };
+
+  return {
+    name: 'google',
+    async textSearch({ query, location, radius, pageToken }: TextSearchParams) {
+      if (pageToken) {
+        for (let attempt = 1; ; attempt++) {
+          const response = await axios.get(`${PLACES_API_URL}/textsearch/json`, {
+            params: { pagetoken: pageToken, key: apiKey },
+          });
+          if (response.data.status === 'INVALID_REQUEST' && attempt < PAGE_TOKEN_ATTEMPTS) {
+            await sleep(PAGE_TOKEN_DELAY_MS);
+            continue;
+          }
+          if (recordDir) await record(textSearchPageFixturePath(recordDir, pageToken), response.data);
+          checkPlacesStatus(response.data);
+          return { results: response.data.results || [], nextPageToken: response.data.next_page_token };
+        }
+      }
+
+      const response = await axios.get(`${PLACES_API_URL}/textsearch/json`, {
+        params: {
+          query: query,
+          location: `${location.lat},${location.lng}`,
+          radius: radius,
+          type: 'restaurant',
+          key: apiKey,
+        },
+      });
+      if (recordDir) await record(textSearchFixturePath(recordDir, query), response.data);
+      checkPlacesStatus(response.data);
+      return { results: response.data.results || [], nextPageToken: response.data.next_page_token };
+    },
+    async getDetails(placeId: string) {
+      const response = await axios.get(`${PLACES_API_URL}/details/json`, {
+        params: {
+          place_id: placeId,
+          fields: 'name,formatted_phone_number,website,reviews,types,editorial_summary,photos',
+          key: apiKey,
+        },
+      });
+      if (recordDir) await record(detailsFixturePath(recordDir, placeId), response.data);
+      checkPlacesStatus(response.data);
+      return response.data.result;
+    },
+    async getPhoto(photoReference: string, maxWidth: number) {
+      // Google answers with a redirect to the image itself, which axios follows
+      const response = await axios.get(`${PLACES_API_URL}/photo`, {
+        params: {
+          photo_reference: photoReference,
+          maxwidth: maxWidth,
+          key: apiKey,
+        },
+        responseType: 'arraybuffer',
+      });
+      const data = Buffer.from(response.data);
+      if (recordDir) {
+        const filePath = photoFixturePath(recordDir, photoReference);
+        try {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, data);
+        } catch (error) {
+          console.warn(`Could not record Places photo to ${filePath}:`, error);
+        }
+      }
+      return { data, contentType: String(response.headers['content-type'] || 'image/jpeg') };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { createFixturePlacesProvider } from './fixture';
+import { createGooglePlacesProvider } from './google';
+import { PlacesProvider } from './types';
+
+export { PlacesApiError } from './errors';
+export { isPlaceId } from './fixture-paths';
+
+export type {
+  GooglePlace,
+  PlaceDetails,
+  PlacePhoto,
+  PlaceReview,
+  PlacesProvider,
+  TextSearchPage,
+  TextSearchParams,
+} from './types';
+
+let provider: PlacesProvider | null = null;
+
+// Picks the provider from PLACES_PROVIDER (google | fixture), defaulting to Google.
+export function getPlacesProvider(): PlacesProvider {
+  if (provider) return provider;
+
+  switch (process.env.PLACES_PROVIDER || 'google') {
+    case 'google': {
+      const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+      if (!apiKey) {
+        throw new Error('Google Places API key not configured');
+      }
+      provider = createGooglePlacesProvider(apiKey, process.env.PLACES_RECORD_DIR);
+      break;
+    }
+    case 'fixture':
+      provider = createFixturePlacesProvider(process.env.PLACES_FIXTURES_DIR);
+      break;
+    default:
+      throw new Error(`Unknown places provider: ${process.env.PLACES_PROVIDER}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,68 @@
+export interface GooglePlace {
+  name: string;
+  formatted_address: string;
+  rating?: number;
+  price_level?: number;
+  place_id: string;
+  geometry: {
+    location: {
+      lat: number;
+      lng: number;
+    };
+  };
+  types: string[];
+  opening_hours?: {
+    open_now?: boolean;
+  };
+  photos?: Array<{
+    photo_reference: string;
+    height: number;
+    width: number;
+  }>;
+}
+
+export interface PlaceReview {
+  author_name?: string;
+  rating: number;
+  text: string;
+  time?: number;
+  relative_time_description?: string;
+}
+
+export interface PlaceDetails {
+  name?: string;
+  formatted_phone_number?: string;
+  website?: string;
+  reviews?: PlaceReview[];
+  types?: string[];
+  editorial_summary?: {
+    overview?: string;
+  };
+  photos?: GooglePlace['photos'];
+}
+
+export interface PlacePhoto {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface TextSearchParams {
+  query: string;
+  location: { lat: number; lng: number };
+  radius: number;
+  // Continues an earlier search; Google then ignores the other parameters
+  pageToken?: string;
+}
+
+export interface TextSearchPage {
+  results: GooglePlace[];
+  // Set while the query has more results, up to Google's three pages
+  nextPageToken?: string;
+}
+
+export interface PlacesProvider {
+  name: string;
+  textSearch(params: TextSearchParams): Promise<TextSearchPage>;
+  getDetails(placeId: string): Promise<PlaceDetails>;
+  getPhoto(photoReference: string, maxWidth: number): Promise<PlacePhoto>;
+}
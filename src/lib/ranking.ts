@@ -0,0 +1,181 @@
+import { DietaryStatus } from './dietary';
+import { haversineDistanceMeters, LatLng } from './geo';
+
+// Shared by /api/nearby and the browser, so the client can re-filter and
+// re-rank results it already has without another round of LLM calls.
+
+export type RankingMode = 'best-match' | 'closest' | 'best-rated' | 'blended';
+
+export interface RankingWeights {
+  match: number;
+  distance: number;
+  rating: number;
+}
+
+export interface SearchFilters {
+  maxDistance?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  exactOnly?: boolean;
+  openNow?: boolean;
+  hideIncompatible?: boolean;
+}
+
+export interface RankableRestaurant {
+  rating?: number;
+  priceLevel?: number;
+  location: LatLng;
+  openNow?: boolean;
+  dishAvailability?: {
+    status: 'scored' | 'unscored';
+    hasExactDish: boolean;
+    confidence: number;
+  };
+  flavorMatch?: { score: number } | null;
+  dietary?: { status: DietaryStatus };
+}
+
+// A place scored against several dishes at once (a group "meal" search)
+export interface MealRankable extends RankableRestaurant {
+  coverage: number;
+  combinedScore: number;
+  dishMatches: Array<{ dishAvailability: { hasExactDish: boolean } }>;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = { match: 0.6, distance: 0.2, rating: 0.2 };
+
+// Distance at which the distance component of a blended score bottoms out
+const DEFAULT_DISTANCE_SCALE_METERS = 8000;
+
+// Places missing a piece of data (no price level, unknown opening hours) are
+// kept rather than dropped, since Google leaves those fields out often.
+export function applyFilters<T extends RankableRestaurant>(
+  restaurants: T[],
+  filters: SearchFilters,
+  origin: LatLng | null
+): T[] {
+  return restaurants.filter(restaurant => {
+    if (filters.maxDistance && origin && haversineDistanceMeters(origin, restaurant.location) > filters.maxDistance) {
+      return false;
+    }
+    if (restaurant.priceLevel !== undefined) {
+      if (filters.minPrice !== undefined && restaurant.priceLevel < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && restaurant.priceLevel > filters.maxPrice) return false;
+    }
+    if (filters.minRating && restaurant.rating !== undefined && restaurant.rating < filters.minRating) {
+      return false;
+    }
+    if (filters.exactOnly && !restaurant.dishAvailability?.hasExactDish) return false;
+    if (filters.openNow && restaurant.openNow === false) return false;
+    if (filters.hideIncompatible && restaurant.dietary?.status === 'incompatible') return false;
+    return true;
+  });
+}
+
+// 0-100: flavor similarity and LLM confidence averaged, whichever exist
+export function matchScore(restaurant: Pick<RankableRestaurant, 'flavorMatch' | 'dishAvailability'>) {
+  const scores: number[] = [];
+  if (restaurant.flavorMatch) scores.push(restaurant.flavorMatch.score);
+  if (restaurant.dishAvailability?.status === 'scored') scores.push(restaurant.dishAvailability.confidence);
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+}
+
+export function blendedScore(
+  restaurant: RankableRestaurant,
+  weights: RankingWeights,
+  origin: LatLng | null,
+  distanceScale = DEFAULT_DISTANCE_SCALE_METERS
+) {
+  const distanceScore = origin
+    ? Math.max(0, 1 - haversineDistanceMeters(origin, restaurant.location) / distanceScale) * 100
+    : 0;
+  const ratingScore = ((restaurant.rating || 0) / 5) * 100;
+  const total = weights.match + weights.distance + weights.rating;
+  if (total <= 0) return 0;
+
+  return (
+    (weights.match * matchScore(restaurant) + weights.distance * distanceScore + weights.rating * ratingScore) / total
+  );
+}
+
+function compareBestMatch(a: RankableRestaurant, b: RankableRestaurant) {
+  // Places that serve the dish first, then flavor similarity, then dish
+  // availability confidence, then rating
+  const exactA = a.dishAvailability?.hasExactDish ? 1 : 0;
+  const exactB = b.dishAvailability?.hasExactDish ? 1 : 0;
+  if (exactA !== exactB) {
+    return exactB - exactA;
+  }
+  const scoreA = a.flavorMatch?.score ?? -1;
+  const scoreB = b.flavorMatch?.score ?? -1;
+  if (scoreA !== scoreB) {
+    return scoreB - scoreA;
+  }
+  const confidenceA = a.dishAvailability?.confidence ?? -1;
+  const confidenceB = b.dishAvailability?.confidence ?? -1;
+  if (confidenceA !== confidenceB) {
+    return confidenceB - confidenceA;
+  }
+  return (b.rating || 0) - (a.rating || 0);
+}
+
+// Returns a sorted copy; the input order is left alone.
+export function rankRestaurants<T extends RankableRestaurant>(
+  restaurants: T[],
+  mode: RankingMode,
+  origin: LatLng | null,
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
+  distanceScale?: number
+): T[] {
+  const distance = (restaurant: RankableRestaurant) =>
+    origin ? haversineDistanceMeters(origin, restaurant.location) : 0;
+
+  return [...restaurants].sort((a, b) => {
+    switch (mode) {
+      case 'closest':
+        return distance(a) - distance(b);
+      case 'best-rated':
+        return (b.rating || 0) - (a.rating || 0) || compareBestMatch(a, b);
+      case 'blended':
+        return blendedScore(b, weights, origin, distanceScale) - blendedScore(a, weights, origin, distanceScale);
+      default:
+        return compareBestMatch(a, b);
+    }
+  });
+}
+
+// For meals, `exactOnly` asks for every dish to be served exactly
+export function applyMealFilters<T extends MealRankable>(
+  restaurants: T[],
+  filters: SearchFilters,
+  origin: LatLng | null
+): T[] {
+  return applyFilters(restaurants, { ...filters, exactOnly: false }, origin).filter(restaurant =>
+    !filters.exactOnly || restaurant.dishMatches.every(match => match.dishAvailability.hasExactDish)
+  );
+}
+
+// Best match for a meal means most dishes covered, then best combined score.
+// Blended ranking has no meal equivalent and falls back to best match.
+export function rankMealRestaurants<T extends MealRankable>(
+  restaurants: T[],
+  mode: RankingMode,
+  origin: LatLng | null
+): T[] {
+  const distance = (restaurant: RankableRestaurant) =>
+    origin ? haversineDistanceMeters(origin, restaurant.location) : 0;
+  const compareCoverage = (a: MealRankable, b: MealRankable) =>
+    b.coverage - a.coverage || b.combinedScore - a.combinedScore || (b.rating || 0) - (a.rating || 0);
+
+  return [...restaurants].sort((a, b) => {
+    switch (mode) {
+      case 'closest':
+        return distance(a) - distance(b);
+      case 'best-rated':
+        return (b.rating || 0) - (a.rating || 0) || compareCoverage(a, b);
+      default:
+        return compareCoverage(a, b);
+    }
+  });
+}
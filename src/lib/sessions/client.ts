@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { getUserId } from '@/lib/library/client';
+import { LibraryPlace } from '@/lib/library/types';
+import { SessionView } from './types';
+
+const DISPLAY_NAME_KEY = 'dishhunt:displayName';
+
+// Browser-side calls for group sessions. Unlike history, sessions are shared,
+// so there is no localStorage fallback: every call goes to the server.
+
+function headers() {
+  return { 'x-user-id': getUserId() };
+}
+
+export function sessionUrl(id: string) {
+  return `${window.location.origin}/sessions/${id}`;
+}
+
+export function loadDisplayName() {
+  return localStorage.getItem(DISPLAY_NAME_KEY) || '';
+}
+
+export function saveDisplayName(name: string) {
+  localStorage.setItem(DISPLAY_NAME_KEY, name);
+}
+
+export async function createGroupSession(input: {
+  name: string;
+  dish: string;
+  sourceRestaurant: LibraryPlace | null;
+  restaurants: unknown[];
+}): Promise<SessionView> {
+  const response = await axios.post('/api/sessions', input, { headers: headers() });
+  return response.data.session;
+}
+
+export async function fetchSession(id: string): Promise<SessionView> {
+  const response = await axios.get(`/api/sessions/${id}`, { headers: headers() });
+  return response.data.session;
+}
+
+export async function joinGroupSession(id: string, name: string): Promise<SessionView> {
+  const response = await axios.post(`/api/sessions/${id}/participants`, { name }, { headers: headers() });
+  return response.data.session;
+}
+
+export async function addSessionDish(id: string, dish: string): Promise<SessionView> {
+  const response = await axios.post(`/api/sessions/${id}/dishes`, { dish }, { headers: headers() });
+  return response.data.session;
+}
+
+export async function toggleSessionVote(id: string, placeId: string): Promise<SessionView> {
+  const response = await axios.post(`/api/sessions/${id}/votes`, { placeId }, { headers: headers() });
+  return response.data.session;
+}
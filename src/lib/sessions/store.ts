@@ -0,0 +1,274 @@
+import { randomUUID } from 'crypto';
+import { DishAvailability, intelligentDishAnalysis } from '@/lib/analysis/availability';
+import { ReviewCitation } from '@/lib/analysis/citations';
+import { MAX_ANALYSIS_FIELD_LENGTH, MAX_TEXT_LENGTH } from '@/lib/library/store';
+import { LibraryPlace } from '@/lib/library/types';
+import { isPlaceId } from '@/lib/places';
+import { createCollection } from '@/lib/storage/collection';
+import {
+  GroupRankingEntry,
+  MAX_DISHES_PER_PARTICIPANT,
+  SessionCandidate,
+  SessionParticipant,
+  SessionView,
+} from './types';
+
+type StoredParticipant = SessionParticipant & { userId: string };
+
+interface StoredSession extends Omit<SessionView, 'participants' | 'ranking' | 'you'> {
+  participants: StoredParticipant[];
+}
+
+export interface CreateSessionInput {
+  name: string;
+  dish: string;
+  sourceRestaurant: LibraryPlace | null;
+  candidates: SessionCandidate[];
+  // The creator's own scores from the search, keyed by placeId
+  scores: Record<string, DishAvailability>;
+}
+
+export const MAX_SESSION_CANDIDATES = 20;
+export const MAX_PARTICIPANTS = 20;
+const MAX_NAME_LENGTH = 40;
+// Availability verdicts cite at most two review quotes
+const MAX_CITATIONS = 2;
+const MAX_QUOTE_LENGTH = 300;
+const MAX_LIST_ITEMS = 20;
+
+const UNSCORED: DishAvailability = {
+  status: 'unscored',
+  hasExactDish: false,
+  hasSimilarDish: false,
+  confidence: 0,
+  reasoning: 'Not scored for this dish',
+  citations: [],
+};
+
+const sessions = createCollection<StoredSession>('group-sessions');
+
+export function cleanParticipantName(value: unknown) {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_NAME_LENGTH) : '';
+}
+
+function boundedText(value: unknown, maxLength: number) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function toReviewCitation(value: unknown): ReviewCitation | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { quote, author, rating, time, relativeTime } = value as Record<string, unknown>;
+  const text = boundedText(quote, MAX_QUOTE_LENGTH);
+  if (!text) return null;
+  return {
+    quote: text,
+    ...(typeof author === 'string' ? { author: boundedText(author, MAX_TEXT_LENGTH) } : {}),
+    ...(typeof rating === 'number' && rating >= 0 && rating <= 5 ? { rating } : {}),
+    ...(typeof time === 'number' && Number.isFinite(time) ? { time } : {}),
+    ...(typeof relativeTime === 'string' ? { relativeTime: boundedText(relativeTime, MAX_TEXT_LENGTH) } : {}),
+  };
+}
+
+// Rebuilds a score the creator's browser sent from its known fields only, so a
+// forged confidence or oversized text cannot skew what every participant sees
+export function toDishAvailability(value: unknown): DishAvailability | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { status, hasExactDish, hasSimilarDish, confidence, reasoning, citations } = value as Record<string, unknown>;
+  if (
+    (status !== 'scored' && status !== 'unscored') ||
+    typeof hasExactDish !== 'boolean' ||
+    typeof hasSimilarDish !== 'boolean' ||
+    typeof confidence !== 'number' ||
+    !Number.isFinite(confidence) ||
+    typeof reasoning !== 'string' ||
+    !Array.isArray(citations)
+  ) {
+    return null;
+  }
+  return {
+    status,
+    hasExactDish,
+    hasSimilarDish,
+    confidence: Math.min(100, Math.max(0, confidence)),
+    reasoning: boundedText(reasoning, MAX_QUOTE_LENGTH),
+    citations: citations
+      .map(toReviewCitation)
+      .filter((citation): citation is ReviewCitation => citation !== null)
+      .slice(0, MAX_CITATIONS),
+  };
+}
+
+// Picks the fields a session keeps out of a search result; null when they are missing
+export function toSessionCandidate(value: unknown): SessionCandidate | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  const location = entry.location as Record<string, unknown> | undefined;
+  if (
+    !isPlaceId(entry.placeId) ||
+    typeof entry.name !== 'string' ||
+    !entry.name.trim() ||
+    entry.name.length > MAX_TEXT_LENGTH ||
+    typeof entry.address !== 'string' ||
+    entry.address.length > MAX_ANALYSIS_FIELD_LENGTH ||
+    typeof location?.lat !== 'number' ||
+    typeof location?.lng !== 'number' ||
+    !Number.isFinite(location.lat) ||
+    !Number.isFinite(location.lng)
+  ) {
+    return null;
+  }
+
+  const menuInsights = entry.menuInsights as { dishes?: unknown } | undefined;
+  const tasteProfile = entry.tasteProfile as { flavors?: unknown; style?: unknown } | undefined;
+  const strings = (list: unknown) => Array.isArray(list)
+    ? list
+      .filter((item): item is string => typeof item === 'string' && item.length <= MAX_ANALYSIS_FIELD_LENGTH)
+      .slice(0, MAX_LIST_ITEMS)
+    : [];
+  return {
+    placeId: entry.placeId,
+    name: entry.name.trim(),
+    address: entry.address,
+    ...(typeof entry.rating === 'number' && entry.rating >= 0 && entry.rating <= 5 ? { rating: entry.rating } : {}),
+    location: { lat: location.lat, lng: location.lng },
+    types: strings(entry.types),
+    menuInsights: { dishes: strings(menuInsights?.dishes) },
+    tasteProfile: {
+      flavors: strings(tasteProfile?.flavors),
+      ...(typeof tasteProfile?.style === 'string' ? { style: boundedText(tasteProfile.style, MAX_TEXT_LENGTH) } : {}),
+    },
+  };
+}
+
+// How well one verdict serves a participant: an exact dish counts fully, a similar one partly
+function availabilityScore(availability: DishAvailability | undefined) {
+  if (!availability || availability.status !== 'scored') return 0;
+  if (availability.hasExactDish) return availability.confidence;
+  if (availability.hasSimilarDish) return availability.confidence * 0.7;
+  return 0;
+}
+
+function groupRanking(session: StoredSession): GroupRankingEntry[] {
+  const withDishes = session.participants.filter(participant => participant.dishes.length > 0);
+
+  return session.candidates.map(candidate => {
+    const voters = session.votes
+      .filter(vote => vote.placeId === candidate.placeId)
+      .map(vote => session.participants.find(participant => participant.id === vote.participantId)?.name)
+      .filter((name): name is string => Boolean(name));
+    // Each participant is as happy as their best-served favorite
+    const dishScore = withDishes.length > 0
+      ? withDishes.reduce((sum, participant) =>
+          sum + Math.max(...participant.dishes.map(dish => availabilityScore(dish.scores[candidate.placeId]))), 0
+        ) / withDishes.length
+      : 0;
+    const voteShare = session.participants.length > 0 ? voters.length / session.participants.length : 0;
+
+    return {
+      placeId: candidate.placeId,
+      votes: voters.length,
+      voters,
+      dishScore: Math.round(dishScore),
+      groupScore: Math.round(0.5 * dishScore + 0.5 * voteShare * 100),
+    };
+  }).sort((a, b) => b.groupScore - a.groupScore || b.votes - a.votes);
+}
+
+// Participants are shown to everyone in the session, so their user ids stay private
+function toParticipant({ id, name, dishes, joinedAt }: StoredParticipant): SessionParticipant {
+  return { id, name, dishes, joinedAt };
+}
+
+function toView(session: StoredSession, userId: string | null): SessionView {
+  return {
+    ...session,
+    participants: session.participants.map(toParticipant),
+    ranking: groupRanking(session),
+    you: session.participants.find(participant => participant.userId === userId)?.id || null,
+  };
+}
+
+export async function createSession(userId: string, input: CreateSessionInput): Promise<SessionView> {
+  const now = new Date().toISOString();
+  const candidates = input.candidates.slice(0, MAX_SESSION_CANDIDATES);
+  const session = await sessions.put({
+    id: randomUUID(),
+    dish: input.dish,
+    sourceRestaurant: input.sourceRestaurant,
+    candidates,
+    participants: [{
+      id: randomUUID(),
+      userId,
+      name: input.name,
+      dishes: [{
+        dish: input.dish,
+        scores: Object.fromEntries(candidates.map(candidate => [candidate.placeId, input.scores[candidate.placeId] || UNSCORED])),
+      }],
+      joinedAt: now,
+    }],
+    votes: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return toView(session, userId);
+}
+
+export async function getSessionView(id: string, userId: string | null): Promise<SessionView | null> {
+  const session = await sessions.get(id);
+  return session ? toView(session, userId) : null;
+}
+
+// Joining again just renames the participant
+export async function joinSession(id: string, userId: string, name: string): Promise<SessionView | null> {
+  const session = await sessions.update(id, current => {
+    const existing = current.participants.find(participant => participant.userId === userId);
+    if (!existing && current.participants.length >= MAX_PARTICIPANTS) return current;
+    return {
+      ...current,
+      participants: existing
+        ? current.participants.map(participant => participant === existing ? { ...participant, name } : participant)
+        : [...current.participants, { id: randomUUID(), userId, name, dishes: [], joinedAt: new Date().toISOString() }],
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  return session ? toView(session, userId) : null;
+}
+
+// Scores the session's candidates for a participant's favorite dish. The LLM
+// call happens outside the write queue so other participants are not held up.
+export async function addParticipantDish(id: string, userId: string, dish: string): Promise<SessionView | null> {
+  const current = await sessions.get(id);
+  if (!current) return null;
+
+  const availability = await intelligentDishAnalysis(current.candidates, dish);
+  const scores = Object.fromEntries(current.candidates.map((candidate, index) => [candidate.placeId, availability[index]]));
+
+  const session = await sessions.update(id, latest => ({
+    ...latest,
+    participants: latest.participants.map(participant => {
+      if (participant.userId !== userId) return participant;
+      const others = participant.dishes.filter(entry => entry.dish.toLowerCase() !== dish.toLowerCase());
+      return { ...participant, dishes: [...others, { dish, scores }].slice(-MAX_DISHES_PER_PARTICIPANT) };
+    }),
+    updatedAt: new Date().toISOString(),
+  }));
+  return session ? toView(session, userId) : null;
+}
+
+// A participant has at most one vote per place; voting again takes it back
+export async function toggleVote(id: string, userId: string, placeId: string): Promise<SessionView | null> {
+  const session = await sessions.update(id, current => {
+    const participant = current.participants.find(entry => entry.userId === userId);
+    if (!participant || !current.candidates.some(candidate => candidate.placeId === placeId)) return current;
+
+    const hasVoted = current.votes.some(vote => vote.participantId === participant.id && vote.placeId === placeId);
+    return {
+      ...current,
+      votes: hasVoted
+        ? current.votes.filter(vote => !(vote.participantId === participant.id && vote.placeId === placeId))
+        : [...current.votes, { participantId: participant.id, placeId }],
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  return session ? toView(session, userId) : null;
+}
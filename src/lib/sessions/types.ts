@@ -0,0 +1,62 @@
+// Shared by the API routes and the browser, so no server-only imports here.
+import type { DishAvailability } from '@/lib/analysis/availability';
+import type { LibraryPlace } from '@/lib/library/types';
+
+export const MAX_DISHES_PER_PARTICIPANT = 3;
+
+// A place from the result set the session was started from. It keeps what the
+// availability prompt needs, so participants' dishes can be scored without
+// fetching the place again.
+export interface SessionCandidate {
+  placeId: string;
+  name: string;
+  address: string;
+  rating?: number;
+  location: { lat: number; lng: number };
+  types: string[];
+  menuInsights: { dishes: string[] };
+  tasteProfile: { flavors?: string[]; style?: string };
+}
+
+export interface ParticipantDish {
+  dish: string;
+  // Keyed by placeId
+  scores: Record<string, DishAvailability>;
+}
+
+export interface SessionParticipant {
+  id: string;
+  name: string;
+  dishes: ParticipantDish[];
+  joinedAt: string;
+}
+
+export interface SessionVote {
+  participantId: string;
+  placeId: string;
+}
+
+export interface GroupRankingEntry {
+  placeId: string;
+  votes: number;
+  voters: string[];
+  // 0-100, how well the place serves each participant's favorite, averaged over participants
+  dishScore: number;
+  // 0-100, dish score and vote share weighted equally
+  groupScore: number;
+}
+
+// What the API returns for a session: participants without their user ids,
+// plus the current group ranking and which participant is asking
+export interface SessionView {
+  id: string;
+  dish: string;
+  sourceRestaurant: LibraryPlace | null;
+  candidates: SessionCandidate[];
+  participants: SessionParticipant[];
+  votes: SessionVote[];
+  ranking: GroupRankingEntry[];
+  you: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
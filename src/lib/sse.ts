@@ -0,0 +1,53 @@
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Runs `producer` and streams whatever it sends as Server-Sent Events. The
+// stream closes when the producer settles; a thrown error becomes an `error` event.
+export function createSSEResponse(
+  producer: (send: SendEvent) => Promise<void>,
+  describeError: (error: unknown) => string = error => (error instanceof Error ? error.message : 'Unknown error occurred')
+) {
+  const encoder = new TextEncoder();
+
+  // Set once the client disconnects too; later events are dropped and the
+  // producer runs to the end without anything throwing into it
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        await producer(send);
+      } catch (error) {
+        send('error', { error: describeError(error) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client going away
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
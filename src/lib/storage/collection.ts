@@ -0,0 +1,95 @@
+import { dataPath, readJsonFile, writeJsonFile } from './files';
+
+export interface Collection<T extends { id: string }> {
+  list(filter?: (record: T) => boolean): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(record: T): Promise<T>;
+  // Inserts or replaces several records with a single write. `replace` is
+  // checked against the stored record inside the write queue; records it
+  // turns down are left as they are and missing from the result.
+  putMany(records: T[], replace?: (existing: T) => boolean): Promise<T[]>;
+  update(id: string, change: (record: T) => T): Promise<T | null>;
+  remove(id: string): Promise<boolean>;
+  // Removes every record matching `filter` with a single write; resolves to how many went
+  removeMany(filter: (record: T) => boolean): Promise<number>;
+}
+
+// Per-file write queues, so concurrent requests in one server process never
+// interleave a read-modify-write on the same collection.
+const queues = new Map<string, Promise<unknown>>();
+
+function enqueue<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const run = (queues.get(filePath) || Promise.resolve()).then(task, task);
+  queues.set(filePath, run.catch(() => undefined));
+  return run;
+}
+
+// A small JSON-file "table": the whole collection is one file under DATA_DIR.
+// Fine for the few thousand records a single deployment accumulates.
+export function createCollection<T extends { id: string }>(name: string): Collection<T> {
+  const filePath = dataPath(`${name}.json`);
+  const load = async () => (await readJsonFile<T[]>(filePath)) || [];
+
+  return {
+    async list(filter) {
+      const records = await load();
+      return filter ? records.filter(filter) : records;
+    },
+    async get(id) {
+      return (await load()).find(record => record.id === id) || null;
+    },
+    put(record) {
+      return enqueue(filePath, async () => {
+        const records = await load();
+        const index = records.findIndex(existing => existing.id === record.id);
+        if (index === -1) records.push(record);
+        else records[index] = record;
+        await writeJsonFile(filePath, records);
+        return record;
+      });
+    },
+    putMany(changed, replace) {
+      return enqueue(filePath, async () => {
+        const records = await load();
+        const written: T[] = [];
+        for (const record of changed) {
+          const index = records.findIndex(existing => existing.id === record.id);
+          if (index === -1) records.push(record);
+          else if (!replace || replace(records[index])) records[index] = record;
+          else continue;
+          written.push(record);
+        }
+        if (written.length > 0) await writeJsonFile(filePath, records);
+        return written;
+      });
+    },
+    update(id, change) {
+      return enqueue(filePath, async () => {
+        const records = await load();
+        const index = records.findIndex(existing => existing.id === id);
+        if (index === -1) return null;
+        records[index] = change(records[index]);
+        await writeJsonFile(filePath, records);
+        return records[index];
+      });
+    },
+    remove(id) {
+      return enqueue(filePath, async () => {
+        const records = await load();
+        const remaining = records.filter(record => record.id !== id);
+        if (remaining.length === records.length) return false;
+        await writeJsonFile(filePath, remaining);
+        return true;
+      });
+    },
+    removeMany(filter) {
+      return enqueue(filePath, async () => {
+        const records = await load();
+        const remaining = records.filter(record => !filter(record));
+        const removed = records.length - remaining.length;
+        if (removed > 0) await writeJsonFile(filePath, remaining);
+        return removed;
+      });
+    },
+  };
+}
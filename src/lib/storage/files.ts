@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Everything the app persists lives under DATA_DIR (default `.data/`).
+export function dataPath(...segments: string[]) {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), '.data'), ...segments);
+}
+
+// Returns null when the file does not exist or cannot be parsed.
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Could not read ${filePath}:`, error);
+    }
+    return null;
+  }
+}
+
+// Writes to a temp file first so readers never see a half-written file.
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2));
+  await fs.rename(tempPath, filePath);
+}
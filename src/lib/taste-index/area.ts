@@ -0,0 +1,102 @@
+import { haversineDistanceMeters, LatLng } from '@/lib/geo';
+import { AreaBounds, CrawlArea } from './types';
+
+// Each text search covers a circle of this radius; Google returns at most 60
+// places per search, so large areas are split into tiles
+export const TILE_RADIUS = 1500;
+// Areas are limited to what fits in a 10 km square, at most 25 tiles
+export const MAX_AREA_RADIUS = 5000;
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface SearchTile {
+  location: LatLng;
+  radius: number;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function metersPerDegreeLng(lat: number) {
+  return METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+function boundsOf(area: CrawlArea): AreaBounds {
+  if ('bounds' in area) return area.bounds;
+  const { center, radius } = area;
+  const dLat = radius / METERS_PER_DEGREE_LAT;
+  const dLng = radius / metersPerDegreeLng(center.lat);
+  return { north: center.lat + dLat, south: center.lat - dLat, east: center.lng + dLng, west: center.lng - dLng };
+}
+
+// Returns an error message for the client, or null when the area is usable
+export function validateCrawlArea(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'An area is required: a center and radius, or bounds';
+  const area = value as Record<string, unknown>;
+
+  if (area.bounds !== undefined) {
+    const bounds = area.bounds as Record<string, unknown>;
+    if (typeof bounds !== 'object' || bounds === null || ![bounds.north, bounds.south, bounds.east, bounds.west].every(isNumber)) {
+      return 'Bounds need numeric north, south, east and west';
+    }
+    const { north, south, east, west } = bounds as unknown as AreaBounds;
+    if (north <= south || east <= west || Math.abs(north) > 90 || Math.abs(south) > 90) {
+      return 'Bounds must have north above south and east of west';
+    }
+    const width = (east - west) * metersPerDegreeLng((north + south) / 2);
+    const height = (north - south) * METERS_PER_DEGREE_LAT;
+    if (width > 2 * MAX_AREA_RADIUS || height > 2 * MAX_AREA_RADIUS) {
+      return `Bounds may span at most ${2 * MAX_AREA_RADIUS / 1000} km each way`;
+    }
+    return null;
+  }
+
+  const center = area.center as Record<string, unknown> | undefined;
+  if (!center || !isNumber(center.lat) || !isNumber(center.lng) || Math.abs(center.lat) > 90) {
+    return 'A center with numeric lat and lng is required';
+  }
+  if (!isNumber(area.radius) || area.radius <= 0 || area.radius > MAX_AREA_RADIUS) {
+    return `Radius must be between 1 and ${MAX_AREA_RADIUS} meters`;
+  }
+  return null;
+}
+
+// Only the fields a job keeps, from a body that passed `validateCrawlArea`
+export function toCrawlArea(value: CrawlArea): CrawlArea {
+  if ('bounds' in value) {
+    const { north, south, east, west } = value.bounds;
+    return { bounds: { north, south, east, west } };
+  }
+  return { center: { lat: value.center.lat, lng: value.center.lng }, radius: value.radius };
+}
+
+export function areaContains(area: CrawlArea, location: LatLng) {
+  if ('bounds' in area) {
+    const { north, south, east, west } = area.bounds;
+    return location.lat <= north && location.lat >= south && location.lng <= east && location.lng >= west;
+  }
+  return haversineDistanceMeters(area.center, location) <= area.radius;
+}
+
+// A grid of overlapping circles covering the area. Cells are squares whose
+// diagonal is the tile diameter, so no corner falls between two searches.
+export function tileArea(area: CrawlArea): SearchTile[] {
+  const { north, south, east, west } = boundsOf(area);
+  const step = TILE_RADIUS * Math.SQRT2;
+  const midLat = (north + south) / 2;
+  const rows = Math.max(1, Math.ceil(((north - south) * METERS_PER_DEGREE_LAT) / step));
+  const cols = Math.max(1, Math.ceil(((east - west) * metersPerDegreeLng(midLat)) / step));
+
+  const tiles: SearchTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const location = {
+        lat: south + ((row + 0.5) * (north - south)) / rows,
+        lng: west + ((col + 0.5) * (east - west)) / cols,
+      };
+      // Corner cells of a circular area may lie entirely outside it
+      if ('center' in area && haversineDistanceMeters(area.center, location) > area.radius + TILE_RADIUS) continue;
+      tiles.push({ location, radius: TILE_RADIUS });
+    }
+  }
+  return tiles;
+}
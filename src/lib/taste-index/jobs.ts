@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import {
+  extractMenuFromReviews,
+  extractTasteProfile,
+  NO_MENU_INSIGHTS,
+  UNKNOWN_TASTE_PROFILE,
+} from '@/lib/analysis/review-extraction';
+import { hashContent } from '@/lib/cache';
+import { getLLMProvider } from '@/lib/llm';
+import { getPlaceDetails } from '@/lib/nearby/details';
+import { createStageRunner, StageRunner } from '@/lib/nearby/runner';
+import { GooglePlace, PlacesProvider, TextSearchPage } from '@/lib/places';
+import { createCollection } from '@/lib/storage/collection';
+import { areaContains, tileArea } from './area';
+import { getIndexedRestaurant, putIndexedRestaurant, REFRESH_AFTER_MS } from './store';
+import { CrawlArea, PrecomputeJob } from './types';
+
+type PlaceOutcome = 'indexed' | 'unchanged' | 'failed';
+
+const CRAWL_QUERY = 'restaurant';
+// Google's limit for one query
+const MAX_PAGES_PER_TILE = 3;
+// Bounds the LLM calls one job can make
+const MAX_PLACES_PER_JOB = 200;
+const MAX_LISTED_JOBS = 20;
+
+const jobs = createCollection<PrecomputeJob>('precompute-jobs');
+
+// Jobs run one at a time inside the server process, so a crawl never competes
+// with another for the Places and LLM quotas
+let queue: Promise<unknown> = Promise.resolve();
+const activeJobIds = new Set<string>();
+
+// A job left queued or running by an earlier server process will never finish
+function view(job: PrecomputeJob): PrecomputeJob {
+  if ((job.status === 'queued' || job.status === 'running') && !activeJobIds.has(job.id)) {
+    return { ...job, status: 'failed', error: 'Interrupted by a server restart' };
+  }
+  return job;
+}
+
+export async function startPrecomputeJob(area: CrawlArea, places: PlacesProvider, force = false): Promise<PrecomputeJob> {
+  const job = await jobs.put({
+    id: randomUUID(),
+    area,
+    force,
+    status: 'queued',
+    counts: { found: 0, indexed: 0, unchanged: 0, failed: 0 },
+    createdAt: new Date().toISOString(),
+  });
+  activeJobIds.add(job.id);
+  queue = queue.then(() => runJob(job, places));
+  return job;
+}
+
+export async function getPrecomputeJob(id: string): Promise<PrecomputeJob | null> {
+  const job = await jobs.get(id);
+  return job && view(job);
+}
+
+export async function listPrecomputeJobs(): Promise<PrecomputeJob[]> {
+  const all = await jobs.list();
+  return all
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_LISTED_JOBS)
+    .map(view);
+}
+
+async function runJob(job: PrecomputeJob, places: PlacesProvider) {
+  const { id, area, force } = job;
+  // No overall budget: a background crawl may take as long as it needs, one stage call at a time
+  const runner = createStageRunner(Number.POSITIVE_INFINITY);
+
+  try {
+    await jobs.update(id, current => ({ ...current, status: 'running', startedAt: new Date().toISOString() }));
+    const found = await crawlArea(area, places, runner);
+    await jobs.update(id, current => ({ ...current, counts: { ...current.counts, found: found.length } }));
+
+    await Promise.all(found.map(async (place) => {
+      const outcome = await indexPlace(place, places, runner, force);
+      await jobs.update(id, current => ({ ...current, counts: { ...current.counts, [outcome]: current.counts[outcome] + 1 } }));
+    }));
+
+    await jobs.update(id, current => ({ ...current, status: 'done', finishedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.error(`Pre-computation job ${id} failed:`, error);
+    await jobs.update(id, current => ({
+      ...current,
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })).catch(() => undefined);
+  } finally {
+    activeJobIds.delete(id);
+  }
+}
+
+// Every restaurant the tiles turn up that lies inside the area, each once
+async function crawlArea(area: CrawlArea, places: PlacesProvider, runner: StageRunner) {
+  const found = new Map<string, GooglePlace>();
+
+  await Promise.all(tileArea(area).map(async ({ location, radius }) => {
+    let pageToken: string | undefined;
+    for (let page = 0; page < MAX_PAGES_PER_TILE; page++) {
+      const { results, nextPageToken } = await runner.run(
+        'text-search',
+        [],
+        () => places.textSearch({ query: CRAWL_QUERY, location, radius, pageToken }),
+        (): TextSearchPage => ({ results: [] })
+      );
+      for (const place of results) {
+        if (!found.has(place.place_id) && areaContains(area, place.geometry.location)) found.set(place.place_id, place);
+      }
+      if (!nextPageToken) break;
+      pageToken = nextPageToken;
+    }
+  }));
+
+  return [...found.values()].slice(0, MAX_PLACES_PER_JOB);
+}
+
+// Recomputes a place's extractions unless its entry is recent and was made
+// from the same reviews by the same model
+async function indexPlace(place: GooglePlace, places: PlacesProvider, runner: StageRunner, force: boolean): Promise<PlaceOutcome> {
+  const placeIds = [place.place_id];
+  const model = getLLMProvider().name;
+
+  const details = await runner.run('place-details', placeIds, () => getPlaceDetails(place.place_id, places), () => null);
+  if (!details) return 'failed';
+  const reviews = details.reviews || [];
+  const reviewsHash = hashContent(reviews.map(r => r.text));
+
+  const existing = await getIndexedRestaurant(places.name, place.place_id);
+  if (
+    !force &&
+    existing &&
+    existing.model === model &&
+    existing.reviewsHash === reviewsHash &&
+    Date.now() - Date.parse(existing.indexedAt) < REFRESH_AFTER_MS
+  ) {
+    return 'unchanged';
+  }
+
+  const [menuInsights, tasteProfile] = await Promise.all([
+    runner.run('menu-insights', placeIds, () => extractMenuFromReviews(reviews), () => null),
+    runner.run('taste-profile', placeIds, () => extractTasteProfile(reviews, place.name), () => null),
+  ]);
+  // The fallbacks mean the model's answer could not be read; searches should retry live instead
+  if (!menuInsights || !tasteProfile || menuInsights === NO_MENU_INSIGHTS || tasteProfile === UNKNOWN_TASTE_PROFILE) {
+    return 'failed';
+  }
+
+  await putIndexedRestaurant({
+    placeId: place.place_id,
+    placesProvider: places.name,
+    model,
+    name: place.name,
+    address: place.formatted_address,
+    location: place.geometry.location,
+    reviewsHash,
+    menuInsights,
+    tasteProfile,
+  });
+  return 'indexed';
+}
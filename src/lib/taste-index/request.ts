@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+
+// Crawls cost Places and LLM quota, so when PRECOMPUTE_TOKEN is set the job
+// endpoints want it as a bearer token. Unset, they are open, as in local development.
+export function isPrecomputeAuthorized(request: NextRequest) {
+  const token = process.env.PRECOMPUTE_TOKEN;
+  return !token || request.headers.get('authorization') === `Bearer ${token}`;
+}
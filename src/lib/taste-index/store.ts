@@ -0,0 +1,51 @@
+import { CacheStats } from '@/lib/cache';
+import { createCollection } from '@/lib/storage/collection';
+import { IndexedRestaurant } from './types';
+
+// Searches use an entry for a week, like live extractions in the cache
+export const INDEX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Jobs recompute entries older than this even when the reviews are unchanged
+export const REFRESH_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+const index = createCollection<IndexedRestaurant>('taste-index');
+
+export function indexId(placesProvider: string, placeId: string) {
+  return `${placesProvider}:${placeId}`;
+}
+
+export function getIndexedRestaurant(placesProvider: string, placeId: string) {
+  return index.get(indexId(placesProvider, placeId));
+}
+
+export function putIndexedRestaurant(entry: Omit<IndexedRestaurant, 'id' | 'indexedAt' | 'expiresAt'>) {
+  const now = Date.now();
+  return index.put({
+    ...entry,
+    id: indexId(entry.placesProvider, entry.placeId),
+    indexedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INDEX_TTL_MS).toISOString(),
+  });
+}
+
+// The entry a search may answer from: produced by the current model and not
+// expired. Counted in the search's cache stats like any other lookup.
+export async function lookupIndexedRestaurant(
+  placesProvider: string,
+  placeId: string,
+  model: string,
+  stats?: CacheStats
+): Promise<IndexedRestaurant | null> {
+  let entry: IndexedRestaurant | null = null;
+  try {
+    entry = await getIndexedRestaurant(placesProvider, placeId);
+  } catch (error) {
+    console.warn(`Could not read the taste index for ${placeId}:`, error);
+  }
+
+  const usable = entry && entry.model === model && Date.parse(entry.expiresAt) > Date.now() ? entry : null;
+  if (stats) {
+    stats['taste-index'] = stats['taste-index'] || { hits: 0, misses: 0 };
+    stats['taste-index'][usable ? 'hits' : 'misses']++;
+  }
+  return usable;
+}
@@ -0,0 +1,53 @@
+import type { MenuInsights, TasteProfile } from '@/lib/analysis/review-extraction';
+import type { LatLng } from '@/lib/geo';
+
+export interface AreaBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Where a pre-computation job looks for restaurants
+export type CrawlArea = { center: LatLng; radius: number } | { bounds: AreaBounds };
+
+// Review extractions for one place, computed ahead of any search. Keyed by
+// places provider and place id; `model` is the LLM provider that produced them.
+export interface IndexedRestaurant {
+  id: string;
+  placeId: string;
+  placesProvider: string;
+  model: string;
+  name: string;
+  address: string;
+  location: LatLng;
+  // Hash of the review texts the extractions were made from
+  reviewsHash: string;
+  menuInsights: MenuInsights;
+  tasteProfile: TasteProfile;
+  indexedAt: string;
+  // Searches fall back to live extraction after this
+  expiresAt: string;
+}
+
+export type PrecomputeJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface PrecomputeJob {
+  id: string;
+  area: CrawlArea;
+  // Recompute every place, even ones whose entry is recent and whose reviews are unchanged
+  force: boolean;
+  status: PrecomputeJobStatus;
+  counts: {
+    // Distinct restaurants found inside the area
+    found: number;
+    indexed: number;
+    // Entries that were recent enough and whose reviews had not changed
+    unchanged: number;
+    failed: number;
+  };
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
@@ -0,0 +1,31 @@
+import { getCohereClient } from '@/lib/llm/cohere';
+import { DescribeImageOptions, VisionProvider } from './types';
+
+// Images are only accepted by the v2 chat endpoint, with a vision model
+export function createCohereVisionProvider(model = 'command-a-vision-07-2025'): VisionProvider {
+  return {
+    name: `cohere:${model}`,
+    async describeImage({ prompt, image, maxTokens, temperature }: DescribeImageOptions) {
+      const response = await getCohereClient().v2.chat({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', imageUrl: { url: `data:${image.mediaType};base64,${image.data}` } },
+            ],
+          },
+        ],
+        maxTokens,
+        temperature,
+      });
+
+      const content = response.message?.content || [];
+      return content
+        .map(item => (item.type === 'text' ? item.text : ''))
+        .join('')
+        .trim();
+    },
+  };
+}
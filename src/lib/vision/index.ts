@@ -0,0 +1,39 @@
+import { createCohereVisionProvider } from './cohere';
+import { createOpenAICompatibleVisionProvider } from './openai-compatible';
+import { createStubVisionProvider } from './stub';
+import { VisionProvider } from './types';
+
+export type { DescribeImageOptions, VisionImage, VisionProvider, VisionTask } from './types';
+
+let provider: VisionProvider | null = null;
+
+// Picks the provider from VISION_PROVIDER (cohere | openai | stub), following
+// LLM_PROVIDER when unset.
+export function getVisionProvider(): VisionProvider {
+  if (provider) return provider;
+
+  const model = process.env.VISION_MODEL;
+
+  const source = process.env.VISION_PROVIDER ? 'VISION_PROVIDER' : 'LLM_PROVIDER';
+  const name = process.env.VISION_PROVIDER || process.env.LLM_PROVIDER || 'cohere';
+
+  switch (name) {
+    case 'cohere':
+      provider = createCohereVisionProvider(model);
+      break;
+    case 'openai':
+      provider = createOpenAICompatibleVisionProvider(
+        model || 'llava',
+        process.env.OPENAI_BASE_URL,
+        process.env.OPENAI_API_KEY
+      );
+      break;
+    case 'stub':
+      provider = createStubVisionProvider(process.env.VISION_FIXTURES_DIR);
+      break;
+    default:
+      throw new Error(`Unknown vision provider: ${name} (from ${source})`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { DescribeImageOptions, VisionProvider } from './types';
+
+// Any OpenAI-compatible server with a multimodal model (llava, qwen2.5-vl, ...)
+export function createOpenAICompatibleVisionProvider(
+  model: string,
+  baseUrl = 'http://localhost:11434/v1',
+  apiKey?: string
+): VisionProvider {
+  return {
+    name: `openai:${model}`,
+    async describeImage({ prompt, image, maxTokens, temperature }: DescribeImageOptions) {
+      const response = await axios.post(
+        `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: `data:${image.mediaType};base64,${image.data}` } },
+              ],
+            },
+          ],
+          max_tokens: maxTokens,
+          temperature,
+        },
+        {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        }
+      );
+
+      return response.data.choices?.[0]?.message?.content?.trim() || '';
+    },
+  };
+}
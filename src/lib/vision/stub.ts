@@ -0,0 +1,18 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DescribeImageOptions, VisionProvider } from './types';
+
+// Answers every task with `<fixturesDir>/<task>.txt`, whatever the image shows
+export function createStubVisionProvider(fixturesDir = path.join(process.cwd(), 'fixtures', 'vision')): VisionProvider {
+  return {
+    name: 'stub',
+    async describeImage({ task }: DescribeImageOptions) {
+      const fixturePath = path.join(fixturesDir, `${task}.txt`);
+      try {
+        return (await fs.readFile(fixturePath, 'utf8')).trim();
+      } catch {
+        throw new Error(`No vision fixture found for task "${task}" at ${fixturePath}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// Vision calls are tagged with a task the same way LLM calls are, so the
+// stub can answer each one from its own fixture.
+export type VisionTask = 'dish-identification';
+
+export interface VisionImage {
+  // Base64-encoded bytes, without a data: prefix
+  data: string;
+  mediaType: string;
+}
+
+export interface DescribeImageOptions {
+  task: VisionTask;
+  prompt: string;
+  image: VisionImage;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface VisionProvider {
+  name: string;
+  describeImage(options: DescribeImageOptions): Promise<string>;
+}